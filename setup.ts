@@ -2,6 +2,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { randomBytes } from 'crypto';
 import inquirer from 'inquirer';
 import axios from 'axios';
 import chalk from 'chalk';
@@ -109,6 +110,13 @@ const envVars: EnvVarDefinition[] = [
         mask: true,
         validate: (val) => val.trim().length === 64
     },
+    {
+        key: 'CARS_MASTER_KEY',
+        description: 'Master key (64 hex characters) that encrypts project keys, tokens and secrets in the database. Keep a copy: the stored secrets cannot be read without it.',
+        default: randomBytes(32).toString('hex'),
+        mask: true,
+        validate: (val) => /^[0-9a-fA-F]{64}$/.test(val.trim())
+    },
     {
         key: 'TAAL_API_KEY_MAIN',
         description: 'TAAL API key for mainnet Bitcoin transactions.',
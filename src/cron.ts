@@ -4,6 +4,7 @@ import logger from './logger';
 import type { Knex } from 'knex';
 import { checkAndIssueCertificates } from './utils/SSLManager';
 import { billProjects } from './utils/billing';
+import { teardownExpiredPreviews } from './utils/previews';
 import { WalletInterface } from '@bsv/sdk';
 
 export function startCronJobs(db: Knex, mainnetWalelt: WalletInterface, testnetWallet: WalletInterface) {
@@ -27,6 +28,11 @@ export function startCronJobs(db: Knex, mainnetWalelt: WalletInterface, testnetW
             } catch (error) {
                 logger.error('Error in project billing cron job', error);
             }
+            try {
+                await teardownExpiredPreviews(db);
+            } catch (error) {
+                logger.error('Error in preview environment cron job', error);
+            }
         },
         null,
         true
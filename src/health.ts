@@ -177,16 +177,18 @@ export async function collectProjectHealth(projectId: string, options: {
     }
 
     const items = resources.items || [];
-    const appDeployment = items.find((item: any) => item.kind === 'Deployment' && item.metadata?.name === `${releaseName}-deployment`);
     const appService = items.find((item: any) => item.kind === 'Service' && item.metadata?.name === `${releaseName}-service`);
+    // Blue/green and canary releases run a second slot; the one the Service points at is the live one
+    const liveApp = appService?.spec?.selector?.app || releaseName;
+    const appDeployment = items.find((item: any) => item.kind === 'Deployment' && item.metadata?.name === `${liveApp}-deployment`);
     const appIngresses = items.filter((item: any) => item.kind === 'Ingress');
-    const appPdb = items.find((item: any) => item.kind === 'PodDisruptionBudget' && item.metadata?.name === `${releaseName}-deployment`);
-    const appHpa = items.find((item: any) => item.kind === 'HorizontalPodAutoscaler' && item.metadata?.name === `${releaseName}-deployment`);
+    const appPdb = items.find((item: any) => item.kind === 'PodDisruptionBudget' && item.metadata?.name === `${liveApp}-deployment`);
+    const appHpa = items.find((item: any) => item.kind === 'HorizontalPodAutoscaler' && item.metadata?.name === `${liveApp}-deployment`);
     const mongoStatefulSet = items.find((item: any) => item.kind === 'StatefulSet' && item.metadata?.name === 'mongo-rs');
     const mongoArbiter = items.find((item: any) => item.kind === 'Deployment' && item.metadata?.name === 'mongo-arbiter');
     const pxc = pxcResources[0];
 
-    const appPods = (pods.items || []).filter((pod: any) => pod.metadata?.labels?.app === releaseName);
+    const appPods = (pods.items || []).filter((pod: any) => pod.metadata?.labels?.app === liveApp);
     const readyAppPods = appPods.filter((pod: any) => podReady(pod));
     const backendContainer = appDeployment?.spec?.template?.spec?.containers?.find((container: any) => container.name === 'backend');
     const deploymentId = typeof backendContainer?.image === 'string' ? backendContainer.image.split(':').slice(1).join(':') || null : null;
@@ -1,5 +1,6 @@
 import { execSync } from 'child_process';
 import logger from './logger';
+import { loadClusterTopology } from './utils/clusterTopology';
 
 export async function initCluster() {
     logger.info('Checking if cluster is ready...');
@@ -16,6 +17,9 @@ export async function initCluster() {
         await new Promise(r => setTimeout(r, 5000));
     }
 
+    // Node placement, storage class, ingress class and issuer, now that the nodes can be listed
+    const topology = await loadClusterTopology();
+
     // Remove any existing Traefik ingress controller if present (common in k3s)
     try {
         logger.info('Ensuring no other ingress controllers (like Traefik) exist...');
@@ -75,24 +79,24 @@ export async function initCluster() {
 apiVersion: cert-manager.io/v1
 kind: ClusterIssuer
 metadata:
-  name: letsencrypt-production
+  name: ${topology.clusterIssuer}
 spec:
   acme:
     email: "${process.env.CERT_ISSUANCE_EMAIL}"
     server: "https://acme-v02.api.letsencrypt.org/directory"
     privateKeySecretRef:
-      name: letsencrypt-production
+      name: ${topology.clusterIssuer}
     solvers:
       - http01:
           ingress:
-            class: nginx
+            class: ${topology.ingressClass}
 `;
     try {
         execSync('kubectl apply -f -', {
             input: clusterIssuer,
             stdio: ['pipe', 'inherit', 'inherit']
         });
-        logger.info('ClusterIssuer letsencrypt-production created.');
+        logger.info(`ClusterIssuer ${topology.clusterIssuer} created.`);
     } catch (e) {
         logger.error(e, 'Failed to create ClusterIssuer for Let\'s Encrypt');
     }
@@ -126,11 +130,11 @@ metadata:
   name: prometheus-ingress
   namespace: monitoring
   annotations:
-    cert-manager.io/cluster-issuer: "letsencrypt-production"
+    cert-manager.io/cluster-issuer: "${topology.clusterIssuer}"
     nginx.ingress.kubernetes.io/force-ssl-redirect: "false"
     nginx.ingress.kubernetes.io/ssl-redirect: "false"
 spec:
-  ingressClassName: nginx
+  ingressClassName: ${topology.ingressClass}
   tls:
     - hosts:
       - prometheus.${projectsDomain}
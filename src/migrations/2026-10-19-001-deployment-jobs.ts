@@ -0,0 +1,37 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    // Deployment jobs - one row per attempt to roll a deploy out to the cluster.
+    // Jobs outlive the upload request so a node restart can resume or fail them.
+    await knex.schema.createTable('deployment_jobs', table => {
+        table.increments('id').primary();
+        table.integer('deploy_id').unsigned().notNullable().references('id').inTable('deploys').onDelete('CASCADE').index();
+        table.integer('project_id').unsigned().notNullable().references('id').inTable('projects').onDelete('CASCADE');
+        table.string('kind', 32).notNullable().defaultTo('deploy');
+        table.string('state', 32).notNullable().defaultTo('queued').index(); // queued | running | succeeded | failed | cancelled
+        table.integer('attempts').unsigned().notNullable().defaultTo(0);
+        table.text('error');
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+        table.timestamp('started_at').nullable();
+        table.timestamp('heartbeat_at').nullable();
+        table.timestamp('finished_at').nullable();
+    });
+
+    // Per-step timings for each job attempt
+    await knex.schema.createTable('deployment_job_steps', table => {
+        table.increments('id').primary();
+        table.integer('job_id').unsigned().notNullable().references('id').inTable('deployment_jobs').onDelete('CASCADE').index();
+        table.string('step', 64).notNullable();
+        table.integer('attempt').unsigned().notNullable();
+        table.string('status', 16).notNullable(); // running | succeeded | failed | skipped
+        table.text('message');
+        table.timestamp('started_at').defaultTo(knex.fn.now());
+        table.timestamp('finished_at').nullable();
+        table.integer('duration_ms').unsigned().nullable();
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('deployment_job_steps');
+    await knex.schema.dropTableIfExists('deployment_jobs');
+}
@@ -0,0 +1,41 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.string('status', 32).index(); // see DEPLOY_STATUSES in utils/deployStatus.ts
+        table.text('failure_reason');
+        table.string('frontend_image', 512);
+        table.string('backend_image', 512);
+        table.json('urls');
+        table.timestamp('status_updated_at').nullable();
+    });
+
+    // Backfill historical deploys from the free-text log messages they left behind
+    await knex('deploys')
+        .whereNull('status')
+        .whereExists(function () {
+            this.select('*').from('logs')
+                .whereRaw('logs.deploy_id = deploys.id')
+                .andWhere('message', 'like', 'Deployment completed successfully%');
+        })
+        .update({ status: 'succeeded' });
+    await knex('deploys')
+        .whereNull('status')
+        .whereExists(function () {
+            this.select('*').from('logs')
+                .whereRaw('logs.deploy_id = deploys.id')
+                .andWhere('message', 'like', 'Error handling upload%');
+        })
+        .update({ status: 'failed' });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.dropColumn('status');
+        table.dropColumn('failure_reason');
+        table.dropColumn('frontend_image');
+        table.dropColumn('backend_image');
+        table.dropColumn('urls');
+        table.dropColumn('status_updated_at');
+    });
+}
@@ -0,0 +1,16 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.json('helm_values'); // values.yaml as rendered for this deploy, used to redeploy it later
+        table.integer('rollback_of_deploy_id').unsigned().references('id').inTable('deploys').onDelete('SET NULL');
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.dropForeign(['rollback_of_deploy_id']);
+        table.dropColumn('rollback_of_deploy_id');
+        table.dropColumn('helm_values');
+    });
+}
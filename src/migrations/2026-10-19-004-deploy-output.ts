@@ -0,0 +1,16 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    // Captured stdout/stderr of the commands run for a deploy (buildah, helm, kubectl, ...)
+    await knex.schema.createTable('deploy_output', table => {
+        table.increments('id').primary();
+        table.integer('deploy_id').unsigned().notNullable().references('id').inTable('deploys').onDelete('CASCADE').index();
+        table.string('stream', 8).notNullable(); // stdout | stderr | system
+        table.text('content').notNullable();
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('deploy_output');
+}
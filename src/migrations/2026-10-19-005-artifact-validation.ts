@@ -0,0 +1,32 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    // Per-project overrides for artifact limits. NULL means the node defaults apply.
+    await knex.schema.alterTable('projects', table => {
+        table.bigInteger('max_artifact_bytes').unsigned().nullable();
+        table.bigInteger('max_extracted_bytes').unsigned().nullable();
+        table.integer('max_artifact_entries').unsigned().nullable();
+    });
+
+    // What was actually uploaded for each deploy
+    await knex.schema.alterTable('deploys', table => {
+        table.string('artifact_sha256', 64).nullable();
+        table.bigInteger('artifact_bytes').unsigned().nullable();
+        table.bigInteger('artifact_extracted_bytes').unsigned().nullable();
+        table.integer('artifact_entries').unsigned().nullable();
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.dropColumn('artifact_sha256');
+        table.dropColumn('artifact_bytes');
+        table.dropColumn('artifact_extracted_bytes');
+        table.dropColumn('artifact_entries');
+    });
+    await knex.schema.alterTable('projects', table => {
+        table.dropColumn('max_artifact_bytes');
+        table.dropColumn('max_extracted_bytes');
+        table.dropColumn('max_artifact_entries');
+    });
+}
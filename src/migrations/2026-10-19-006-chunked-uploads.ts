@@ -0,0 +1,24 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    // Resumable chunked uploads - one open upload session per deploy.
+    // Chunks are appended in order, so next_chunk is also the resume point.
+    await knex.schema.createTable('artifact_uploads', table => {
+        table.increments('id').primary();
+        table.integer('deploy_id').unsigned().notNullable().unique().references('id').inTable('deploys').onDelete('CASCADE');
+        table.bigInteger('total_size').unsigned().notNullable();
+        table.integer('chunk_size').unsigned().notNullable();
+        table.integer('total_chunks').unsigned().notNullable();
+        table.integer('next_chunk').unsigned().notNullable().defaultTo(0);
+        table.bigInteger('received_bytes').unsigned().notNullable().defaultTo(0);
+        table.string('sha256', 64).nullable(); // expected SHA-256 of the whole artifact, if the client supplied one
+        table.string('file_path', 1024).notNullable();
+        table.string('state', 16).notNullable().defaultTo('open'); // open | finalized
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+        table.timestamp('updated_at').defaultTo(knex.fn.now());
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('artifact_uploads');
+}
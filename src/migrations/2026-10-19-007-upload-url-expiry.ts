@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        // Set once an upload is accepted; the signed upload URL cannot be used again after that.
+        table.timestamp('upload_consumed_at').nullable();
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.dropColumn('upload_consumed_at');
+    });
+}
@@ -0,0 +1,25 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    // At most one deployment job per project touches the cluster at a time.
+    // The primary key on project_id is what makes acquiring the lock atomic.
+    await knex.schema.createTable('project_deploy_locks', table => {
+        table.integer('project_id').unsigned().primary().references('id').inTable('projects').onDelete('CASCADE');
+        table.integer('deploy_id').unsigned().notNullable().references('id').inTable('deploys').onDelete('CASCADE');
+        table.integer('job_id').unsigned().notNullable().references('id').inTable('deployment_jobs').onDelete('CASCADE');
+        table.timestamp('acquired_at').defaultTo(knex.fn.now());
+        table.timestamp('heartbeat_at').defaultTo(knex.fn.now());
+    });
+
+    // What to do with an upload while another deployment of the project is in progress
+    await knex.schema.alterTable('projects', table => {
+        table.string('concurrent_deploy_policy', 16).notNullable().defaultTo('queue'); // queue | reject
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('projects', table => {
+        table.dropColumn('concurrent_deploy_policy');
+    });
+    await knex.schema.dropTableIfExists('project_deploy_locks');
+}
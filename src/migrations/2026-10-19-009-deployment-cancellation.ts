@@ -0,0 +1,16 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    // A cancel request is recorded on the job so whichever node is running it can act on it.
+    await knex.schema.alterTable('deployment_jobs', table => {
+        table.timestamp('cancel_requested_at').nullable();
+        table.string('cancelled_by', 66).nullable();
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deployment_jobs', table => {
+        table.dropColumn('cancel_requested_at');
+        table.dropColumn('cancelled_by');
+    });
+}
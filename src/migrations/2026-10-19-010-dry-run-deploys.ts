@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        // Dry-run deploys validate and render their upload but never build or touch the cluster
+        table.boolean('dry_run').notNullable().defaultTo(false);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.dropColumn('dry_run');
+    });
+}
@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('projects', table => {
+        // Requests/limits, replica bounds, autoscaling targets and volume sizes; NULL means the defaults
+        table.json('resource_profile').nullable();
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('projects', table => {
+        table.dropColumn('resource_profile');
+    });
+}
@@ -0,0 +1,18 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    // Admin-defined environment variables for a project's backend, rendered into a Secret at deploy time
+    await knex.schema.createTable('project_env_vars', table => {
+        table.increments('id').primary();
+        table.integer('project_id').unsigned().notNullable().references('id').inTable('projects').onDelete('CASCADE');
+        table.string('name', 255).notNullable();
+        table.text('value').notNullable(); // envelope-encrypted, see utils/encryption
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+        table.timestamp('updated_at').defaultTo(knex.fn.now());
+        table.unique(['project_id', 'name']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('project_env_vars');
+}
@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('projects', table => {
+        // Envelope-encrypted JSON of generated MySQL/Mongo passwords; NULL means the legacy fixed credentials
+        table.text('db_credentials').nullable();
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('projects', table => {
+        table.dropColumn('db_credentials');
+    });
+}
@@ -0,0 +1,51 @@
+import { Knex } from 'knex';
+import { decryptValue, encryptValue, getMasterKey, isEncrypted } from '../utils/encryption';
+
+export async function up(knex: Knex): Promise<void> {
+    // Check the key before changing anything, so a node started without one can simply be restarted with it
+    getMasterKey();
+
+    // Sealed values are longer than the 64 hex characters these columns were sized for
+    await knex.schema.alterTable('projects', table => {
+        table.string('private_key', 512).notNullable().alter();
+        table.string('admin_bearer_token', 512).nullable().alter();
+    });
+
+    // Encrypt every existing key and token under the node master key
+    const projects = await knex('projects').select('id', 'private_key', 'admin_bearer_token');
+    for (const project of projects) {
+        const update: Record<string, string> = {};
+        if (project.private_key && !isEncrypted(project.private_key)) {
+            update.private_key = encryptValue(project.private_key);
+        }
+        if (project.admin_bearer_token && !isEncrypted(project.admin_bearer_token)) {
+            update.admin_bearer_token = encryptValue(project.admin_bearer_token);
+        }
+        if (Object.keys(update).length > 0) {
+            await knex('projects').where({ id: project.id }).update(update);
+        }
+    }
+}
+
+export async function down(knex: Knex): Promise<void> {
+    getMasterKey();
+
+    const projects = await knex('projects').select('id', 'private_key', 'admin_bearer_token');
+    for (const project of projects) {
+        const update: Record<string, string> = {};
+        if (isEncrypted(project.private_key)) {
+            update.private_key = decryptValue(project.private_key);
+        }
+        if (isEncrypted(project.admin_bearer_token)) {
+            update.admin_bearer_token = decryptValue(project.admin_bearer_token);
+        }
+        if (Object.keys(update).length > 0) {
+            await knex('projects').where({ id: project.id }).update(update);
+        }
+    }
+
+    await knex.schema.alterTable('projects', table => {
+        table.string('private_key', 64).notNullable().alter();
+        table.string('admin_bearer_token', 64).nullable().alter();
+    });
+}
@@ -0,0 +1,23 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    // One row per rotation of a project's private key. The previous key is kept (encrypted)
+    // so funds left on it can still be recovered if the sweep to the new key fails.
+    await knex.schema.createTable('project_key_rotations', table => {
+        table.increments('id').primary();
+        table.integer('project_id').unsigned().notNullable().references('id').inTable('projects').onDelete('CASCADE').index();
+        table.string('previous_public_key', 66).notNullable();
+        table.string('public_key', 66).notNullable();
+        table.string('previous_private_key', 512).notNullable();
+        table.string('status', 32).notNullable().defaultTo('pending'); // pending | swept | sweep_failed
+        table.bigInteger('swept_satoshis').notNullable().defaultTo(0);
+        table.text('error');
+        table.integer('deploy_id').unsigned().nullable().references('id').inTable('deploys').onDelete('SET NULL');
+        table.string('requested_by', 255);
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('project_key_rotations');
+}
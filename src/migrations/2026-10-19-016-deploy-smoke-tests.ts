@@ -0,0 +1,18 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        // URLs the project declared to be tested after this deploy (kept so rollbacks test them too)
+        table.json('smoke_tests').nullable();
+        table.string('smoke_test_status', 16).nullable(); // passed | failed | skipped
+        table.json('smoke_test_results').nullable();
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.dropColumn('smoke_tests');
+        table.dropColumn('smoke_test_status');
+        table.dropColumn('smoke_test_results');
+    });
+}
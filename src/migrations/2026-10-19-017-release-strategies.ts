@@ -0,0 +1,24 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('projects', table => {
+        table.string('deploy_strategy', 16).notNullable().defaultTo('rolling'); // rolling | blue_green | canary
+        table.integer('canary_weight').unsigned().notNullable().defaultTo(10);
+    });
+    await knex.schema.alterTable('deploys', table => {
+        // Strategy the deploy was released with, and the slot (blue | green) its app Deployment runs in
+        table.string('deploy_strategy', 16).nullable();
+        table.string('release_slot', 8).nullable();
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.dropColumn('deploy_strategy');
+        table.dropColumn('release_slot');
+    });
+    await knex.schema.alterTable('projects', table => {
+        table.dropColumn('deploy_strategy');
+        table.dropColumn('canary_weight');
+    });
+}
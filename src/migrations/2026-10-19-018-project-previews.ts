@@ -0,0 +1,29 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    // Named preview environments of a project. Rows are kept after teardown (deleted_at set)
+    // so the deploys made to a preview stay attributed to it.
+    await knex.schema.createTable('project_previews', table => {
+        table.increments('id').primary();
+        table.integer('project_id').unsigned().notNullable().references('id').inTable('projects').onDelete('CASCADE');
+        table.string('name', 16).notNullable();
+        table.boolean('light_databases').notNullable().defaultTo(true);
+        table.timestamp('expires_at').notNullable();
+        table.string('created_by', 255);
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+        table.timestamp('deleted_at').nullable();
+        table.index(['project_id', 'name']);
+    });
+    await knex.schema.alterTable('deploys', table => {
+        // Set for deploys to a preview environment rather than the project's main release
+        table.integer('preview_id').unsigned().nullable().references('id').inTable('project_previews').onDelete('CASCADE');
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.dropForeign(['preview_id']);
+        table.dropColumn('preview_id');
+    });
+    await knex.schema.dropTableIfExists('project_previews');
+}
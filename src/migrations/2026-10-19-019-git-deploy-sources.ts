@@ -0,0 +1,19 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        // Set for deploys built from a Git repository rather than an uploaded artifact
+        table.string('git_url', 1024).nullable();
+        table.string('git_ref', 255).nullable();
+        // Commit the ref resolved to when the repository was cloned
+        table.string('git_commit', 40).nullable();
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.dropColumn('git_url');
+        table.dropColumn('git_ref');
+        table.dropColumn('git_commit');
+    });
+}
@@ -0,0 +1,25 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    // Dependency layer images a project has already built and pushed, keyed by a hash of their build inputs
+    await knex.schema.createTable('build_cache_entries', table => {
+        table.increments('id').primary();
+        table.integer('project_id').unsigned().notNullable().references('id').inTable('projects').onDelete('CASCADE');
+        table.string('cache_key', 64).notNullable();
+        table.string('image', 512).notNullable();
+        table.integer('hits').unsigned().notNullable().defaultTo(0);
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+        table.timestamp('last_used_at').nullable();
+        table.unique(['project_id', 'cache_key']);
+    });
+    await knex.schema.alterTable('deploys', table => {
+        table.string('build_cache', 8).nullable(); // hit | miss, for the backend dependency layer
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.dropColumn('build_cache');
+    });
+    await knex.schema.dropTableIfExists('build_cache_entries');
+}
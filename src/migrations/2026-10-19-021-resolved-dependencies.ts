@@ -0,0 +1,16 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        // Versions the backend's direct dependencies were locked at, and whether that started from an uploaded lockfile
+        table.json('resolved_dependencies').nullable();
+        table.string('lockfile_source', 16).nullable(); // uploaded | generated
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('deploys', table => {
+        table.dropColumn('resolved_dependencies');
+        table.dropColumn('lockfile_source');
+    });
+}
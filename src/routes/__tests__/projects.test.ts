@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { Knex } from 'knex';
+import { PrivateKey, ProtoWallet } from '@bsv/sdk';
+import projects from '../projects';
+import { encryptValue } from '../../utils/encryption';
+import { testDatabase } from '../../utils/__tests__/fixtures';
+
+jest.mock('../../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../../utils/wallet', () => ({
+    ...jest.requireActual('../../utils/wallet'),
+    sweepKey: jest.fn(async () => 0)
+}));
+
+describe('POST /project/:projectId/keys/rotate', () => {
+    const identityKey = PrivateKey.fromRandom().toPublicKey().toString();
+    let db: Knex;
+    let server: Server;
+    let baseUrl: string;
+    let project: any;
+
+    beforeAll(async () => {
+        process.env.CARS_MASTER_KEY = crypto.randomBytes(32).toString('hex');
+        db = await testDatabase();
+        await db('users').insert({ identity_key: identityKey, email: 'admin@example.com' });
+
+        const wallet = new ProtoWallet(PrivateKey.fromRandom());
+        const app = express();
+        app.use(express.json());
+        app.use((req, _res, next) => {
+            Object.assign(req, { db, mainnetWallet: wallet, testnetWallet: wallet, auth: { identityKey } });
+            next();
+        });
+        app.use('/project', projects);
+        server = app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        await db.destroy();
+    });
+
+    beforeEach(async () => {
+        const [projectId] = await db('projects').insert({
+            project_uuid: crypto.randomBytes(16).toString('hex'),
+            name: 'Rotation test',
+            network: 'testnet',
+            private_key: encryptValue(crypto.randomBytes(32).toString('hex')),
+            admin_bearer_token: encryptValue(crypto.randomBytes(32).toString('hex'))
+        });
+        await db('project_admins').insert({ project_id: projectId, identity_key: identityKey });
+        project = await db('projects').where({ id: projectId }).first();
+    });
+
+    async function insertDeploy(fields: Record<string, any>) {
+        const [id] = await db('deploys').insert({
+            deployment_uuid: crypto.randomBytes(16).toString('hex'),
+            project_id: project.id,
+            creator_identity_key: identityKey,
+            ...fields
+        });
+        return db('deploys').where({ id }).first();
+    }
+
+    function succeededDeploy(fields: Record<string, any> = {}) {
+        return insertDeploy({
+            status: 'succeeded',
+            status_updated_at: new Date(),
+            helm_values: JSON.stringify({ backendImage: 'registry/backend:1', frontendImage: null }),
+            backend_image: 'registry/backend:1',
+            ...fields
+        });
+    }
+
+    async function rotate() {
+        const response = await fetch(`${baseUrl}/project/${project.project_uuid}/keys/rotate`, { method: 'POST' });
+        return { status: response.status, body: await response.json() as any };
+    }
+
+    it('is refused while a newer deploy is queued or running, and changes nothing', async () => {
+        await succeededDeploy();
+        const newer = await insertDeploy({ status: 'building_backend' });
+        await db('deployment_jobs').insert({ deploy_id: newer.id, project_id: project.id, kind: 'deploy', state: 'running' });
+
+        const { status, body } = await rotate();
+
+        expect(status).toBe(409);
+        expect(body.lockedBy).toBe(newer.deployment_uuid);
+        const unchanged = await db('projects').where({ id: project.id }).first();
+        expect(unchanged.private_key).toBe(project.private_key);
+        expect(unchanged.admin_bearer_token).toBe(project.admin_bearer_token);
+        expect(await db('deploys').where({ project_id: project.id })).toHaveLength(2);
+        expect(await db('project_key_rotations').where({ project_id: project.id })).toHaveLength(0);
+    });
+
+    it('is refused while a deploy is awaiting promotion', async () => {
+        await succeededDeploy();
+        const staged = await insertDeploy({ status: 'awaiting_promotion', release_slot: 'green' });
+
+        const { status, body } = await rotate();
+
+        expect(status).toBe(409);
+        expect(body.lockedBy).toBe(staged.deployment_uuid);
+        expect((await db('projects').where({ id: project.id }).first()).private_key).toBe(project.private_key);
+    });
+
+    it('redeploys the live release and the live release of each preview', async () => {
+        const earlier = await succeededDeploy({ status_updated_at: new Date(Date.now() - 60000) });
+        const live = await succeededDeploy({ rollback_of_deploy_id: earlier.id });
+        const expires = new Date(Date.now() + 3600000);
+        const [previewId] = await db('project_previews').insert({ project_id: project.id, name: 'feature', expires_at: expires });
+        const [emptyPreviewId] = await db('project_previews').insert({ project_id: project.id, name: 'empty', expires_at: expires });
+        const previewLive = await succeededDeploy({ preview_id: previewId });
+
+        const { status, body } = await rotate();
+
+        expect(status).toBe(200);
+        expect(body.adminBearerToken).toMatch(/^[0-9a-f]{64}$/);
+        const rotated = await db('projects').where({ id: project.id }).first();
+        expect(rotated.private_key).not.toBe(project.private_key);
+
+        const redeploy = await db('deploys').where({ deployment_uuid: body.redeploy.deploymentId }).first();
+        expect(redeploy).toMatchObject({ rollback_of_deploy_id: live.id, preview_id: null, status: 'queued' });
+        expect(body.previewRedeploys).toHaveLength(1);
+        expect(body.previewRedeploys[0].preview).toBe('feature');
+        const previewRedeploy = await db('deploys').where({ deployment_uuid: body.previewRedeploys[0].deploymentId }).first();
+        expect(previewRedeploy).toMatchObject({ rollback_of_deploy_id: previewLive.id, preview_id: previewId });
+        expect(await db('deploys').where({ preview_id: emptyPreviewId })).toHaveLength(0);
+
+        const jobs = await db('deployment_jobs').whereIn('deploy_id', [redeploy.id, previewRedeploy.id]);
+        expect(jobs.map((job: any) => [job.kind, job.state])).toEqual([['rollback', 'queued'], ['rollback', 'queued']]);
+        expect((await db('project_key_rotations').where({ project_id: project.id }).first()).deploy_id).toBe(redeploy.id);
+    });
+});
@@ -0,0 +1,102 @@
+import { Request, Response } from 'express';
+import type { WalletInterface } from '@bsv/sdk';
+import type { Knex } from 'knex';
+import logger from '../logger';
+import { readBuildOutput, verifyBuildOutputSignature } from '../utils/buildOutput';
+import { isTerminalDeployStatus } from '../utils/deployStatus';
+
+const POLL_INTERVAL_MS = 1000;
+const KEEPALIVE_INTERVAL_MS = 15000;
+const BATCH_SIZE = 500;
+// A stream is closed after this long in total, or after this long without new output or a status change;
+// the client reconnects with Last-Event-ID to carry on
+const MAX_STREAM_MS = parseInt(process.env.CARS_BUILD_OUTPUT_STREAM_MAX_SECONDS || '3600', 10) * 1000;
+const IDLE_STREAM_MS = parseInt(process.env.CARS_BUILD_OUTPUT_STREAM_IDLE_SECONDS || '900', 10) * 1000;
+
+// Statuses after which a deploy records no more output until someone acts on it
+const STREAM_END_STATUSES = ['awaiting_promotion'];
+
+/**
+ * Streams a deploy's captured build output as Server-Sent Events.
+ * Output already stored is replayed first (resuming after `Last-Event-ID` or `?after=`),
+ * then new lines are sent as they are recorded until the deploy reaches a terminal status or awaits promotion.
+ * Streams that run too long or go idle are ended with `timedOut: true`, and can be resumed.
+ * Output is read from the database, so any node can serve the stream regardless of which one runs the build.
+ */
+export default async (req: Request, res: Response) => {
+  const { db, mainnetWallet: wallet }: { db: Knex, mainnetWallet: WalletInterface } = req as any;
+  const { deploymentId, signature } = req.params;
+
+  let deploy: any;
+  try {
+    deploy = await db('deploys').where({ deployment_uuid: deploymentId }).first();
+    if (!deploy) {
+      return res.status(400).json({ error: 'Invalid deploymentId' });
+    }
+    if (!(await verifyBuildOutputSignature(wallet, deploymentId, signature))) {
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+  } catch (error: any) {
+    logger.error({ deploymentId, error: error.message }, 'Error opening build output stream');
+    return res.status(500).json({ error: 'Error opening build output stream' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+  });
+
+  let lastId = parseInt((req.headers['last-event-id'] as string) || (req.query.after as string) || '0', 10) || 0;
+  let lastWrite = Date.now();
+  const startedAt = Date.now();
+  let lastActivity = startedAt;
+  let lastStatus = deploy.status;
+
+  try {
+    while (!closed) {
+      // Output is flushed before the status changes, so when the deploy was already
+      // terminal before this read, the read returns everything that is left.
+      const current = await db('deploys').where({ id: deploy.id }).select('status', 'failure_reason').first();
+      const rows = await readBuildOutput(db, deploy.id, lastId, BATCH_SIZE);
+      for (const row of rows) {
+        res.write(`id: ${row.id}\nevent: output\ndata: ${JSON.stringify({ stream: row.stream, content: row.content, at: row.created_at })}\n\n`);
+        lastId = row.id;
+      }
+      if (rows.length > 0) {
+        lastWrite = Date.now();
+        lastActivity = lastWrite;
+      }
+      if (current?.status !== lastStatus) {
+        lastStatus = current?.status;
+        lastActivity = Date.now();
+      }
+      if (rows.length === BATCH_SIZE) continue;
+
+      if (isTerminalDeployStatus(current?.status) || STREAM_END_STATUSES.includes(current?.status)) {
+        res.write(`event: end\ndata: ${JSON.stringify({ status: current.status, failureReason: current.failure_reason || null })}\n\n`);
+        break;
+      }
+      if (Date.now() - startedAt > MAX_STREAM_MS || Date.now() - lastActivity > IDLE_STREAM_MS) {
+        res.write(`event: end\ndata: ${JSON.stringify({ status: current?.status || null, failureReason: null, timedOut: true })}\n\n`);
+        break;
+      }
+
+      if (Date.now() - lastWrite > KEEPALIVE_INTERVAL_MS) {
+        res.write(': keep-alive\n\n');
+        lastWrite = Date.now();
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } catch (error: any) {
+    logger.error({ deploymentId, error: error.message }, 'Error streaming build output');
+    res.write(`event: error\ndata: ${JSON.stringify({ error: 'Error streaming build output' })}\n\n`);
+  }
+  res.end();
+};
@@ -0,0 +1,299 @@
+import { Request, Response } from 'express';
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+import type { WalletInterface } from '@bsv/sdk';
+import type { Knex } from 'knex';
+import logger from '../logger';
+import { artifactLimitsForProject, sha256File } from '../utils/artifact';
+import { acceptArtifact, authorizeUpload, consumeUploadUrl, uploadTempPath } from '../utils/uploads';
+import { runDryRun } from '../utils/dryRun';
+
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+const MIN_CHUNK_SIZE = 1024 * 1024;
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+
+function describeSession(session: any) {
+  return {
+    totalSize: Number(session.total_size),
+    chunkSize: session.chunk_size,
+    totalChunks: session.total_chunks,
+    nextChunk: session.next_chunk,
+    receivedBytes: Number(session.received_bytes)
+  };
+}
+
+/**
+ * Start (or resume) a chunked upload for a deployment.
+ * @body { totalSize: number, chunkSize?: number, sha256?: string }
+ * @returns { totalSize, chunkSize, totalChunks, nextChunk, receivedBytes } - nextChunk is where to resume
+ */
+export const initiateChunkedUpload = async (req: Request, res: Response) => {
+  const { db, mainnetWallet: wallet }: { db: Knex, mainnetWallet: WalletInterface } = req as any;
+  const { deploymentId, signature } = req.params;
+
+  try {
+    const auth = await authorizeUpload(db, wallet, deploymentId, signature, req.query.expires, { continuingChunkedUpload: true });
+    if (auth.rejection) {
+      return res.status(auth.rejection.status).json(auth.rejection.body);
+    }
+    const { deploy, project } = auth;
+
+    const totalSize = Number(req.body?.totalSize);
+    const chunkSize = req.body?.chunkSize === undefined ? DEFAULT_CHUNK_SIZE : Number(req.body.chunkSize);
+    const sha256 = req.body?.sha256 ? String(req.body.sha256).toLowerCase() : null;
+    if (!Number.isInteger(totalSize) || totalSize < 1) {
+      return res.status(400).json({ error: 'totalSize must be a positive integer' });
+    }
+    if (!Number.isInteger(chunkSize) || chunkSize < MIN_CHUNK_SIZE || chunkSize > MAX_CHUNK_SIZE) {
+      return res.status(400).json({ error: `chunkSize must be between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE} bytes` });
+    }
+    if (sha256 && !/^[0-9a-f]{64}$/.test(sha256)) {
+      return res.status(400).json({ error: 'sha256 must be a hex-encoded SHA-256 digest' });
+    }
+    const limits = artifactLimitsForProject(project);
+    if (totalSize > limits.maxArtifactBytes) {
+      return res.status(413).json({ error: `Artifact is ${totalSize} bytes, over the project limit of ${limits.maxArtifactBytes} bytes` });
+    }
+
+    // Same parameters as an open session: resume it rather than starting over
+    const existing = await db('artifact_uploads').where({ deploy_id: deploy.id }).first();
+    if (
+      existing &&
+      existing.state === 'open' &&
+      Number(existing.total_size) === totalSize &&
+      existing.chunk_size === chunkSize &&
+      (existing.sha256 || null) === sha256 &&
+      fs.existsSync(existing.file_path)
+    ) {
+      return res.json({ deploymentId, resumed: true, ...describeSession(existing) });
+    }
+    if (auth.expired) {
+      return res.status(401).json({ error: 'Upload URL has expired; only the chunked upload already in progress can be resumed' });
+    }
+
+    const filePath = path.join('/tmp', `artifact_${deploymentId}.tgz.upload`);
+    fs.removeSync(filePath);
+    fs.ensureFileSync(filePath);
+    const session = {
+      deploy_id: deploy.id,
+      total_size: totalSize,
+      chunk_size: chunkSize,
+      total_chunks: Math.ceil(totalSize / chunkSize),
+      next_chunk: 0,
+      received_bytes: 0,
+      sha256,
+      file_path: filePath,
+      state: 'open',
+      updated_at: new Date()
+    };
+    if (existing) {
+      await db('artifact_uploads').where({ id: existing.id }).update(session);
+    } else {
+      await db('artifact_uploads').insert(session);
+    }
+    await db('logs').insert({
+      project_id: project.id,
+      deploy_id: deploy.id,
+      message: `Chunked upload started: ${totalSize} bytes in ${session.total_chunks} chunks`
+    });
+
+    res.status(201).json({ deploymentId, resumed: false, ...describeSession(session) });
+  } catch (error: any) {
+    logger.error({ deploymentId, error: error.message }, 'Error starting chunked upload');
+    res.status(500).json({ error: `Error starting chunked upload: ${error.message}` });
+  }
+};
+
+/**
+ * Upload one chunk. Chunks must be sent in order; the request body is streamed straight to disk.
+ * @header x-chunk-sha256 - hex SHA-256 of the chunk body
+ * @returns { nextChunk, receivedBytes }
+ */
+export const uploadChunk = async (req: Request, res: Response) => {
+  const { db, mainnetWallet: wallet }: { db: Knex, mainnetWallet: WalletInterface } = req as any;
+  const { deploymentId, signature } = req.params;
+  const index = Number(req.params.index);
+  let partPath: string | undefined;
+
+  try {
+    const auth = await authorizeUpload(db, wallet, deploymentId, signature, req.query.expires, { continuingChunkedUpload: true });
+    if (auth.rejection) {
+      req.resume();
+      return res.status(auth.rejection.status).json(auth.rejection.body);
+    }
+    const { deploy } = auth;
+
+    const session = await db('artifact_uploads').where({ deploy_id: deploy.id, state: 'open' }).first();
+    if (!session) {
+      req.resume();
+      return res.status(404).json({ error: 'No chunked upload in progress for this deployment' });
+    }
+    const expectedSha = String(req.headers['x-chunk-sha256'] || '').toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(expectedSha)) {
+      req.resume();
+      return res.status(400).json({ error: 'x-chunk-sha256 header with the hex SHA-256 of the chunk is required' });
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= session.total_chunks) {
+      req.resume();
+      return res.status(400).json({ error: `Chunk index must be between 0 and ${session.total_chunks - 1}` });
+    }
+    if (index < session.next_chunk) {
+      // Already acknowledged, e.g. the response to an earlier attempt was lost
+      req.resume();
+      return res.json({ deploymentId, acknowledged: index, ...describeSession(session) });
+    }
+    if (index > session.next_chunk) {
+      req.resume();
+      return res.status(409).json({ error: `Chunks must be uploaded in order, expected chunk ${session.next_chunk}`, ...describeSession(session) });
+    }
+
+    const offset = index * session.chunk_size;
+    const expectedSize = Math.min(session.chunk_size, Number(session.total_size) - offset);
+
+    // Stream the body to a part file, hashing and counting as it arrives
+    partPath = `${session.file_path}.${index}.${crypto.randomBytes(4).toString('hex')}.part`;
+    const hash = crypto.createHash('sha256');
+    let received = 0;
+    await pipeline(
+      req,
+      async function* (source) {
+        for await (const chunk of source) {
+          received += chunk.length;
+          if (received > expectedSize) {
+            throw new Error(`Chunk ${index} is larger than the expected ${expectedSize} bytes`);
+          }
+          hash.update(chunk);
+          yield chunk;
+        }
+      },
+      fs.createWriteStream(partPath)
+    );
+
+    if (received !== expectedSize) {
+      return res.status(400).json({ error: `Chunk ${index} is ${received} bytes, expected ${expectedSize}` });
+    }
+    if (hash.digest('hex') !== expectedSha) {
+      return res.status(400).json({ error: `Checksum mismatch for chunk ${index}` });
+    }
+
+    // Drop anything past the last acknowledged chunk (left by an interrupted append), then append this one
+    await fs.truncate(session.file_path, Number(session.received_bytes));
+    await pipeline(fs.createReadStream(partPath), fs.createWriteStream(session.file_path, { flags: 'a' }));
+
+    const acknowledged = await db('artifact_uploads')
+      .where({ id: session.id, next_chunk: index, state: 'open' })
+      .update({
+        next_chunk: index + 1,
+        received_bytes: offset + received,
+        updated_at: new Date()
+      });
+    if (!acknowledged) {
+      return res.status(409).json({ error: `Chunk ${index} was uploaded concurrently by another request` });
+    }
+
+    res.json({
+      deploymentId,
+      acknowledged: index,
+      ...describeSession({ ...session, next_chunk: index + 1, received_bytes: offset + received })
+    });
+  } catch (error: any) {
+    logger.error({ deploymentId, index, error: error.message }, 'Error receiving upload chunk');
+    if (!res.headersSent) {
+      res.status(500).json({ error: `Error receiving upload chunk: ${error.message}` });
+    }
+  } finally {
+    if (partPath) {
+      fs.removeSync(partPath);
+    }
+  }
+};
+
+/**
+ * Finish a chunked upload once every chunk has been acknowledged.
+ * The assembled artifact goes through the same validation as a single-request upload, and only then is the build queued.
+ */
+export const finalizeChunkedUpload = async (req: Request, res: Response) => {
+  const { db, mainnetWallet: wallet }: { db: Knex, mainnetWallet: WalletInterface } = req as any;
+  const { deploymentId, signature } = req.params;
+
+  let deploy: any;
+  let project: any;
+  let filePath: string | undefined;
+
+  try {
+    const auth = await authorizeUpload(db, wallet, deploymentId, signature, req.query.expires, { continuingChunkedUpload: true });
+    if (auth.rejection) {
+      return res.status(auth.rejection.status).json(auth.rejection.body);
+    }
+    ({ deploy, project } = auth);
+
+    const session = await db('artifact_uploads').where({ deploy_id: deploy.id, state: 'open' }).first();
+    if (!session) {
+      return res.status(404).json({ error: 'No chunked upload in progress for this deployment' });
+    }
+    if (session.next_chunk < session.total_chunks) {
+      return res.status(409).json({ error: `Upload incomplete, expected chunk ${session.next_chunk}`, ...describeSession(session) });
+    }
+
+    // Take the assembled file for this request alone; a concurrent finalize finds it gone.
+    // acceptArtifact moves it into place once the upload URL is consumed
+    const claimedPath = uploadTempPath(deploymentId);
+    try {
+      await fs.rename(session.file_path, claimedPath);
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') throw e;
+      return res.status(409).json({ error: 'This upload is already being finalized' });
+    }
+    filePath = claimedPath;
+    await db('artifact_uploads').where({ id: session.id }).update({ state: 'finalized', updated_at: new Date() });
+
+    await fs.truncate(filePath, Number(session.total_size));
+    if (session.sha256 && (await sha256File(filePath)) !== session.sha256) {
+      // Every chunk matched its own checksum, so the client sent the wrong data; start over
+      await db('artifact_uploads').where({ id: session.id }).del();
+      return res.status(400).json({ error: 'Assembled artifact does not match the sha256 given when the upload was started' });
+    }
+
+    // Dry-run deploys are checked and rendered right here and never queued
+    if (deploy.dry_run) {
+      const rejection = await consumeUploadUrl(db, deploy);
+      if (rejection) {
+        return res.status(rejection.status).json(rejection.body);
+      }
+      return res.json(await runDryRun(db, deploy, project, filePath));
+    }
+
+    const accepted = await acceptArtifact(db, deploy, project, filePath);
+    if (accepted.rejection) {
+      return res.status(accepted.rejection.status).json(accepted.rejection.body);
+    }
+
+    res.status(202).json({
+      message: 'Upload accepted, deployment processing started',
+      deploymentId,
+      projectId: project.project_uuid,
+      jobId: accepted.jobId,
+      sha256: accepted.artifact.sha256,
+      queuedBehind: accepted.queuedBehind || null
+    });
+  } catch (error: any) {
+    if (deploy && project) {
+      await db('logs').insert({
+        project_id: project.id,
+        deploy_id: deploy.id,
+        message: `Error handling upload: ${error.message}`
+      });
+    }
+    logger.error(`Error handling upload: ${error.message}`, { deploymentId });
+    if (!res.headersSent) {
+      res.status(500).json({ error: `Error handling upload: ${error.message}` });
+    }
+  } finally {
+    // Whatever was not accepted (a lost race for the upload URL, a rejected or dry-run artifact) is removed
+    if (filePath) {
+      fs.removeSync(filePath);
+    }
+  }
+};
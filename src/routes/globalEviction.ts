@@ -2,6 +2,7 @@ import { Transaction, PushDrop, Utils, ProtoWallet } from '@bsv/sdk'
 import logger from '../logger'
 import axios from 'axios'
 import { getBackendDomain } from './projects'
+import { projectAdminToken } from '../utils/encryption'
 
 interface Takedown {
     outpoint: string,
@@ -77,7 +78,7 @@ export default async (req, res) => {
                     outputIndex
                 }, {
                     headers: {
-                        Authorization: `Bearer ${project.admin_bearer_token}`
+                        Authorization: `Bearer ${projectAdminToken(project)}`
                     },
                     timeout: 120000
                 });
@@ -2,13 +2,29 @@ import { Router, Request, Response } from 'express';
 import crypto from 'crypto';
 import logger from '../logger';
 import type { Knex } from 'knex';
-import { Utils, WalletInterface } from '@bsv/sdk';
+import { WalletInterface } from '@bsv/sdk';
 import { execSync } from 'child_process';
 import dns from 'dns/promises';
 import { sendAdminNotificationEmail, sendWelcomeEmail, sendDomainChangeEmail } from '../utils/email';
 import { enableIngress } from '../utils/ingress';
 import axios from 'axios';
 import { collectProjectHealth } from '../health';
+import { isTerminalDeployStatus } from '../utils/deployStatus';
+import { cancelDeploymentJob, enqueueDeploymentJob, findActiveJobForDeploy } from '../utils/deployJobs';
+import { createBuildOutputUrl, readBuildOutput } from '../utils/buildOutput';
+import { acceptGitSource, createUploadUrl } from '../utils/uploads';
+import { validateGitSource } from '../utils/gitSource';
+import { CONCURRENT_DEPLOY_POLICIES, findDeploymentInProgress } from '../utils/deployLocks';
+import { generateDbCredentials, sealDbCredentials } from '../utils/dbCredentials';
+import { encryptValue, projectAdminToken } from '../utils/encryption';
+import { rotateProjectKey } from '../utils/keyRotation';
+import { listProjectEnv, updateProjectEnv, validateEnvUpdate } from '../utils/projectEnv';
+import { DEPLOY_STRATEGIES, liveRelease, validateCanaryWeight } from '../utils/releaseStrategy';
+import {
+    MAX_PREVIEWS_PER_PROJECT, PREVIEW_DEFAULT_TTL_HOURS, describePreview, findActivePreview, listPreviews,
+    previewDeployInProgress, projectNamespace, projectReleaseName, teardownPreview, validatePreviewRequest
+} from '../utils/previews';
+import { RESOURCE_MAXIMUMS, mergeResourceProfile, resourceProfileForProject, validateResourceProfile } from '../utils/resourceProfile';
 
 const router = Router();
 
@@ -145,9 +161,12 @@ router.post('/create', requireRegisteredUser, async (req: Request, res: Response
         name: name || 'Unnamed Project',
         balance: 0,
         network: network === 'testnet' ? 'testnet' : 'mainnet',
-        private_key: privateKey,
+        // Key and token are stored encrypted under the node master key
+        private_key: encryptValue(privateKey),
         engine_config: JSON.stringify(defaultEngineConfig),
-        admin_bearer_token: adminBearerToken
+        admin_bearer_token: encryptValue(adminBearerToken),
+        // Unique MySQL/Mongo passwords for this project's databases
+        db_credentials: sealDbCredentials(generateDbCredentials())
     }, ['id']).returning('id');
 
     await db('project_admins').insert({
@@ -377,19 +396,268 @@ router.post('/:projectId/admins/list', requireRegisteredUser, requireProject, re
 
 /**
  * List deployments for a project
- * Returns deployment_uuid and creation time
+ * Returns deployment_uuid, status and creation time
  */
 router.post('/:projectId/deploys/list', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
     const { db }: { db: Knex } = req as any;
     const project = (req as any).project;
 
-    const deploys = await db('deploys').where({ project_id: project.id }).select('deployment_uuid', 'created_at');
+    const deploys = await db('deploys')
+        .leftJoin('project_previews', 'project_previews.id', 'deploys.preview_id')
+        .where({ 'deploys.project_id': project.id })
+        .select('deploys.deployment_uuid', 'deploys.status', 'deploys.dry_run', 'deploys.smoke_test_status', 'project_previews.name as preview', 'deploys.git_commit', 'deploys.created_at');
     res.json({ deploys });
 });
 
+/**
+ * Deployment status
+ * Returns the deploy's current state, failure reason, image tags, URLs, Git source, locked backend dependencies and smoke test verdict,
+ * plus the latest job and its per-step timings.
+ */
+router.post('/:projectId/deploys/:deploymentId/status', requireRegisteredUser, requireProject, requireDeployment, requireProjectAdminForDeploy, async (req: Request, res: Response) => {
+    const { db }: { db: Knex } = req as any;
+    const deploy = (req as any).deploy;
+
+    const job = await db('deployment_jobs').where({ deploy_id: deploy.id }).orderBy('id', 'desc').first();
+    const preview = deploy.preview_id ? await db('project_previews').where({ id: deploy.preview_id }).first() : null;
+    const steps = job
+        ? await db('deployment_job_steps').where({ job_id: job.id }).orderBy('id', 'asc')
+        : [];
+
+    let urls = deploy.urls;
+    if (typeof urls === 'string') {
+        try {
+            urls = JSON.parse(urls);
+        } catch (e) {
+            urls = null;
+        }
+    }
+    let smokeTestResults = deploy.smoke_test_results;
+    if (typeof smokeTestResults === 'string') {
+        try {
+            smokeTestResults = JSON.parse(smokeTestResults);
+        } catch (e) {
+            smokeTestResults = null;
+        }
+    }
+
+    res.json({
+        deploymentId: deploy.deployment_uuid,
+        status: deploy.status,
+        terminal: isTerminalDeployStatus(deploy.status),
+        dryRun: Boolean(deploy.dry_run),
+        failureReason: deploy.failure_reason || null,
+        images: {
+            frontend: deploy.frontend_image || null,
+            backend: deploy.backend_image || null
+        },
+        urls: urls || {},
+        strategy: deploy.deploy_strategy || null,
+        slot: deploy.release_slot || null,
+        preview: preview ? preview.name : null,
+        git: deploy.git_url ? { url: deploy.git_url, ref: deploy.git_ref, commit: deploy.git_commit || null } : null,
+        buildCache: deploy.build_cache || null,
+        dependencies: deploy.resolved_dependencies ? {
+            lockfile: deploy.lockfile_source,
+            versions: typeof deploy.resolved_dependencies === 'string' ? JSON.parse(deploy.resolved_dependencies) : deploy.resolved_dependencies
+        } : null,
+        smokeTests: {
+            status: deploy.smoke_test_status || null,
+            results: smokeTestResults || []
+        },
+        createdAt: deploy.created_at,
+        updatedAt: deploy.status_updated_at,
+        job: job ? {
+            id: job.id,
+            state: job.state,
+            attempts: job.attempts,
+            startedAt: job.started_at,
+            finishedAt: job.finished_at,
+            steps: steps.map((s: any) => ({
+                step: s.step,
+                attempt: s.attempt,
+                status: s.status,
+                message: s.message,
+                durationMs: s.duration_ms
+            }))
+        } : null
+    });
+});
+
+/**
+ * Roll back to a previous deployment
+ * Redeploys the images and Helm values recorded for :deploymentId without rebuilding anything.
+ * The rollback is recorded as a new deploy.
+ * @returns { deploymentId, rollbackOf, jobId, outputUrl }
+ */
+router.post('/:projectId/deploys/:deploymentId/rollback', requireRegisteredUser, requireProject, requireDeployment, requireProjectAdminForDeploy, async (req: Request, res: Response) => {
+    const { db, mainnetWallet: wallet }: { db: Knex, mainnetWallet: WalletInterface } = req as any;
+    const project = (req as any).project;
+    const target = (req as any).deploy;
+    const user = (req as any).user;
+
+    if (target.status !== 'succeeded' || !target.helm_values) {
+        return res.status(400).json({ error: 'Only deployments that completed successfully can be rolled back to' });
+    }
+    if (target.preview_id && !(await db('project_previews').where({ id: target.preview_id }).whereNull('deleted_at').first())) {
+        return res.status(400).json({ error: 'The preview environment of this deployment has been torn down' });
+    }
+
+    const inProgress = await findDeploymentInProgress(db, project.id);
+    if (inProgress && project.concurrent_deploy_policy === 'reject') {
+        return res.status(409).json({ error: `Deployment ${inProgress.deploymentId} is already in progress for this project`, lockedBy: inProgress.deploymentId });
+    }
+
+    const deploymentId = crypto.randomBytes(16).toString('hex');
+    const [depId] = await db('deploys').insert({
+        deployment_uuid: deploymentId,
+        project_id: project.id,
+        creator_identity_key: user.identity_key,
+        status: 'queued',
+        rollback_of_deploy_id: target.id,
+        preview_id: target.preview_id,
+        frontend_image: target.frontend_image,
+        backend_image: target.backend_image
+    }, ['id']).returning('id');
+
+    const message = `Rollback to deployment ${target.deployment_uuid} requested by ${user.identity_key} (${user.email})`;
+    await db('logs').insert({
+        project_id: project.id,
+        message
+    });
+    await db('logs').insert({
+        project_id: project.id,
+        deploy_id: depId,
+        message
+    });
+    logger.info({ projectId: project.project_uuid, deploymentId, rollbackOf: target.deployment_uuid }, 'Rollback requested');
+
+    const deploy = await db('deploys').where({ id: depId }).first();
+    const jobId = await enqueueDeploymentJob(db, deploy, 'rollback');
+
+    res.json({
+        deploymentId,
+        rollbackOf: target.deployment_uuid,
+        jobId,
+        outputUrl: await createBuildOutputUrl(wallet, deploymentId),
+        message: 'Rollback queued'
+    });
+});
+
+/**
+ * Cancel a deployment that is queued or in progress
+ * Kills the running build or Helm command, removes the deployment's working files and marks it cancelled.
+ * If Helm had already started upgrading the release, the release is put back to the revision that was running before.
+ * @returns { deploymentId, message }
+ */
+router.post('/:projectId/deploys/:deploymentId/cancel', requireRegisteredUser, requireProject, requireDeployment, requireProjectAdminForDeploy, async (req: Request, res: Response) => {
+    const { db }: { db: Knex } = req as any;
+    const deploy = (req as any).deploy;
+    const user = (req as any).user;
+
+    if (isTerminalDeployStatus(deploy.status)) {
+        return res.status(400).json({ error: `Deployment already finished with status ${deploy.status}` });
+    }
+
+    const cancelled = await cancelDeploymentJob(db, deploy, user.identity_key);
+    if (!cancelled) {
+        return res.status(400).json({ error: 'Deployment has no queued or running job to cancel' });
+    }
+    logger.info({ deploymentId: deploy.deployment_uuid, identityKey: user.identity_key }, 'Deployment cancellation requested');
+
+    res.json({
+        deploymentId: deploy.deployment_uuid,
+        message: 'Deployment cancellation requested'
+    });
+});
+
+/**
+ * Promote a blue/green or canary deployment that is awaiting promotion
+ * Switches all traffic to its slot and smoke tests it; if the smoke tests fail, traffic goes back
+ * to the release that was live before. Otherwise the previous release is removed.
+ * @returns { deploymentId, jobId, outputUrl, message }
+ */
+router.post('/:projectId/deploys/:deploymentId/promote', requireRegisteredUser, requireProject, requireDeployment, requireProjectAdminForDeploy, async (req: Request, res: Response) => {
+    await queuePromotionJob(req, res, 'promote');
+});
+
+/**
+ * Abort a blue/green or canary deployment that is awaiting promotion
+ * Removes its slot; the live release keeps serving all traffic.
+ * @returns { deploymentId, jobId, outputUrl, message }
+ */
+router.post('/:projectId/deploys/:deploymentId/abort', requireRegisteredUser, requireProject, requireDeployment, requireProjectAdminForDeploy, async (req: Request, res: Response) => {
+    await queuePromotionJob(req, res, 'abort');
+});
+
+async function queuePromotionJob(req: Request, res: Response, kind: 'promote' | 'abort') {
+    const { db, mainnetWallet: wallet }: { db: Knex, mainnetWallet: WalletInterface } = req as any;
+    const project = (req as any).project;
+    const deploy = (req as any).deploy;
+    const user = (req as any).user;
+
+    if (deploy.status !== 'awaiting_promotion') {
+        return res.status(400).json({ error: `Only deployments awaiting promotion can be ${kind === 'promote' ? 'promoted' : 'aborted'} (status is ${deploy.status})` });
+    }
+    if (await findActiveJobForDeploy(db, deploy.id)) {
+        return res.status(409).json({ error: 'A job for this deployment is already queued or running' });
+    }
+
+    const message = `${kind === 'promote' ? 'Promotion' : 'Abort'} of deployment ${deploy.deployment_uuid} requested by ${user.identity_key} (${user.email})`;
+    await db('logs').insert({
+        project_id: project.id,
+        message
+    });
+    await db('logs').insert({
+        project_id: project.id,
+        deploy_id: deploy.id,
+        message
+    });
+    logger.info({ projectId: project.project_uuid, deploymentId: deploy.deployment_uuid, kind }, 'Staged deployment decision requested');
+
+    const jobId = await enqueueDeploymentJob(db, deploy, kind);
+
+    res.json({
+        deploymentId: deploy.deployment_uuid,
+        jobId,
+        outputUrl: await createBuildOutputUrl(wallet, deploy.deployment_uuid),
+        message: kind === 'promote' ? 'Promotion queued' : 'Abort queued'
+    });
+}
+
+/**
+ * Get the captured build output (stdout/stderr of buildah, helm, kubectl) for a deployment
+ * @body { after?: number, limit?: number } - resume after a previously seen line id
+ * @returns { lines, streamUrl } - streamUrl follows the output live as Server-Sent Events
+ */
+router.post('/:projectId/deploys/:deploymentId/output', requireRegisteredUser, requireProject, requireDeployment, requireProjectAdminForDeploy, async (req: Request, res: Response) => {
+    const { db, mainnetWallet: wallet }: { db: Knex, mainnetWallet: WalletInterface } = req as any;
+    const deploy = (req as any).deploy;
+    const after = parseInt(req.body?.after, 10) || 0;
+    const limit = Math.min(Math.max(parseInt(req.body?.limit, 10) || 1000, 1), MAX_TAIL_LINES);
+
+    const rows = await readBuildOutput(db, deploy.id, after, limit);
+    res.json({
+        deploymentId: deploy.deployment_uuid,
+        status: deploy.status,
+        terminal: isTerminalDeployStatus(deploy.status),
+        lines: rows.map((r: any) => ({
+            id: r.id,
+            stream: r.stream,
+            content: r.content,
+            at: r.created_at
+        })),
+        streamUrl: await createBuildOutputUrl(wallet, deploy.deployment_uuid)
+    });
+});
+
 /**
  * Create a new deploy for a project
- * @returns { deploymentId, url } - URL for uploading release files.
+ * @body { dryRun?: boolean, preview?: string, git?: { url: string, ref: string } } - a dry run validates the upload and returns the rendered files and manifests instead of deploying;
+ *   preview deploys to the named preview environment instead of the project's main release;
+ *   git builds the given branch, tag or commit SHA of the repository instead of waiting for an upload, and is queued straight away
+ * @returns { deploymentId, url, expiresAt, outputUrl } - single-use URL for uploading release files (valid until expiresAt), and a Server-Sent Events URL for following the build output.
+ *   For a Git deploy: { deploymentId, jobId, outputUrl, git } and no upload URL.
  */
 router.post('/:projectId/deploy', requireRegisteredUser, async (req: Request, res: Response) => {
     const { db, mainnetWallet: wallet }: { db: Knex, mainnetWallet: WalletInterface } = req as any;
@@ -404,33 +672,148 @@ router.post('/:projectId/deploy', requireRegisteredUser, async (req: Request, re
 
     const deploymentId = crypto.randomBytes(16).toString('hex');
 
+    const dryRun = req.body?.dryRun === true;
+
+    const git = req.body?.git;
+    if (git !== undefined) {
+        const errors = validateGitSource(git);
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid Git source', errors });
+        }
+        if (dryRun) {
+            return res.status(400).json({ error: 'Dry runs validate an uploaded artifact and cannot be combined with a Git source' });
+        }
+        if (project.balance < 1) {
+            return res.status(401).json({ error: `Project balance must be at least 1 satoshi to deploy. Current balance: ${project.balance}` });
+        }
+    }
+
+    let preview = null;
+    if (req.body?.preview !== undefined) {
+        preview = typeof req.body.preview === 'string' ? await findActivePreview(db, project.id, req.body.preview) : null;
+        if (!preview) return res.status(404).json({ error: 'Preview environment not found' });
+    }
+
     const [depId] = await db('deploys').insert({
         deployment_uuid: deploymentId,
         project_id: project.id,
-        creator_identity_key: identityKey
+        creator_identity_key: identityKey,
+        status: 'queued',
+        dry_run: dryRun,
+        preview_id: preview ? preview.id : null,
+        git_url: git ? git.url : null,
+        git_ref: git ? git.ref : null
     }, ['id']).returning('id');
 
     await db('logs').insert({
         project_id: project.id,
         deploy_id: depId,
-        message: 'Deployment started'
+        message: `${dryRun ? 'Dry run started' : 'Deployment started'}${preview ? ` for preview environment ${preview.name}` : ''}`
     });
 
-    const { signature } = await wallet.createSignature({
-        data: Utils.toArray(deploymentId, 'hex'),
-        protocolID: [2, 'url signing'],
-        keyID: deploymentId,
-        counterparty: 'self'
-    });
+    if (git) {
+        const deploy = await db('deploys').where({ id: depId }).first();
+        const { rejection, jobId, queuedBehind } = await acceptGitSource(db, deploy, project);
+        if (rejection) {
+            return res.status(rejection.status).json(rejection.body);
+        }
+        return res.json({
+            outputUrl: await createBuildOutputUrl(wallet, deploymentId),
+            deploymentId,
+            jobId,
+            queuedBehind,
+            git: { url: git.url, ref: git.ref },
+            preview: preview ? preview.name : null,
+            message: 'Deployment queued'
+        });
+    }
 
-    const uploadUrl = `${process.env.CARS_NODE_SERVER_BASEURL || 'http://localhost:7777'}/api/v1/upload/${deploymentId}/${Utils.toHex(signature)}`;
+    const { url: uploadUrl, expiresAt } = await createUploadUrl(wallet, deploymentId);
     res.json({
         url: uploadUrl,
+        expiresAt,
+        outputUrl: await createBuildOutputUrl(wallet, deploymentId),
         deploymentId,
+        dryRun,
+        preview: preview ? preview.name : null,
         message: 'Deployment created'
     });
 });
 
+/**
+ * Create a named preview environment for the project
+ * A preview runs in its own namespace under `frontend.<name>.<projectId>.<domain>` / `backend.<name>.<projectId>.<domain>`,
+ * is billed to the project, and is torn down automatically when its TTL runs out.
+ * Deploy to it with `POST /:projectId/deploy` and `{ preview: name }`.
+ * @body { name: string, ttlHours?: number, lightDatabases?: boolean } - lightDatabases (default true) runs single-instance databases on small volumes
+ * @returns { preview }
+ */
+router.post('/:projectId/previews/create', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
+    const { db }: { db: Knex } = req as any;
+    const project = (req as any).project;
+    const user = (req as any).user;
+
+    const errors = validatePreviewRequest(req.body);
+    if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid preview environment', errors });
+    }
+    const { name, ttlHours = PREVIEW_DEFAULT_TTL_HOURS, lightDatabases = true } = req.body;
+
+    if (await findActivePreview(db, project.id, name)) {
+        return res.status(409).json({ error: `Preview environment ${name} already exists` });
+    }
+    const [{ count }] = await db('project_previews').where({ project_id: project.id }).whereNull('deleted_at').count('* as count');
+    if (Number(count) >= MAX_PREVIEWS_PER_PROJECT) {
+        return res.status(400).json({ error: `A project can have at most ${MAX_PREVIEWS_PER_PROJECT} preview environments` });
+    }
+
+    const [previewId] = await db('project_previews').insert({
+        project_id: project.id,
+        name,
+        light_databases: lightDatabases,
+        expires_at: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+        created_by: user.identity_key
+    });
+    await db('logs').insert({
+        project_id: project.id,
+        message: `Preview environment ${name} created by ${user.identity_key} (${user.email}), expires in ${ttlHours}h`
+    });
+
+    const preview = await db('project_previews').where({ id: previewId }).first();
+    res.json({ preview: describePreview(project)(preview) });
+});
+
+/**
+ * List the project's preview environments
+ * @returns { previews }
+ */
+router.post('/:projectId/previews/list', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
+    const { db }: { db: Knex } = req as any;
+    const project = (req as any).project;
+
+    res.json({ previews: await listPreviews(db, project) });
+});
+
+/**
+ * Tear down a preview environment now: its release, namespace and databases are removed.
+ */
+router.post('/:projectId/previews/:previewName/delete', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
+    const { db }: { db: Knex } = req as any;
+    const project = (req as any).project;
+    const user = (req as any).user;
+
+    const preview = await findActivePreview(db, project.id, req.params.previewName);
+    if (!preview) {
+        return res.status(404).json({ error: 'Preview environment not found' });
+    }
+    if (await previewDeployInProgress(db, preview.id)) {
+        return res.status(409).json({ error: 'A deployment to this preview environment is in progress; cancel it first' });
+    }
+
+    await teardownPreview(db, project, preview, `deleted by ${user.identity_key}`);
+    res.json({ message: `Preview environment ${preview.name} deleted` });
+});
+
 /**
  * Set Web UI Config for a project
  * @body { config: object }
@@ -492,6 +875,9 @@ router.post('/:projectId/info', requireRegisteredUser, requireProject, requirePr
 
         const webUIConfig = project.web_ui_config ? JSON.parse(project.web_ui_config) : null;
 
+        // Names only: values are write-only
+        const environment = await listProjectEnv((req as any).db, project.id);
+
         res.json({
             id: project.project_uuid,
             name: project.name,
@@ -502,7 +888,12 @@ router.post('/:projectId/info', requireRegisteredUser, requireProject, requirePr
             sslEnabled: status.domains.ssl,
             customDomains,
             webUIConfig,
-            engine_config: project.engine_config
+            engine_config: project.engine_config,
+            concurrentDeployPolicy: project.concurrent_deploy_policy,
+            deployStrategy: project.deploy_strategy,
+            canaryWeight: project.canary_weight,
+            resourceProfile: resourceProfileForProject(project),
+            environment
         });
     } catch (error: any) {
         logger.error({ error: error.message }, 'Error getting project info');
@@ -531,8 +922,12 @@ router.post('/:projectId/delete', requireRegisteredUser, requireProject, require
     const project = (req as any).project;
     const user = (req as any).user;
 
-    const namespace = `cars-project-${project.project_uuid}`;
-    const helmReleaseName = `cars-project-${project.project_uuid.substr(0, 24)}`;
+    const namespace = projectNamespace(project);
+    const helmReleaseName = projectReleaseName(project);
+
+    for (const preview of await db('project_previews').where({ project_id: project.id }).whereNull('deleted_at')) {
+        await teardownPreview(db, project, preview, 'project deleted');
+    }
 
     // Uninstall helm release
     try {
@@ -960,6 +1355,241 @@ router.post('/:projectId/settings/update', requireRegisteredUser, requireProject
     return res.json({ message: 'Engine settings updated successfully', engineConfig });
 });
 
+/**
+ * Choose what happens to an upload while another deployment of the project is in progress
+ * @body { policy: 'queue' | 'reject' } - queue it behind the active deployment, or reject it with the active deployment's ID
+ */
+router.post('/:projectId/settings/concurrentDeploys', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
+    const { db }: { db: Knex } = req as any;
+    const project = (req as any).project;
+    const { policy } = req.body;
+
+    if (!CONCURRENT_DEPLOY_POLICIES.includes(policy)) {
+        return res.status(400).json({ error: `Invalid policy - must be one of ${CONCURRENT_DEPLOY_POLICIES.join(', ')}` });
+    }
+
+    await db('projects').where({ id: project.id }).update({ concurrent_deploy_policy: policy });
+    await db('logs').insert({
+        project_id: project.id,
+        message: `Concurrent deployment policy set to ${policy}`
+    });
+
+    res.json({ message: 'Concurrent deployment policy updated', policy });
+});
+
+/**
+ * Choose how new deployments are released
+ * @body { strategy: 'rolling' | 'blue_green' | 'canary', canaryWeight?: number } - rolling replaces the live release in place;
+ *   blue_green and canary start the new release next to it and wait for it to be promoted or aborted.
+ *   canaryWeight is the percentage of traffic a canary receives before promotion.
+ */
+router.post('/:projectId/settings/deployStrategy', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
+    const { db }: { db: Knex } = req as any;
+    const project = (req as any).project;
+    const { strategy, canaryWeight = project.canary_weight } = req.body;
+
+    if (!DEPLOY_STRATEGIES.includes(strategy)) {
+        return res.status(400).json({ error: `Invalid strategy - must be one of ${DEPLOY_STRATEGIES.join(', ')}` });
+    }
+    const weightError = validateCanaryWeight(canaryWeight);
+    if (weightError) {
+        return res.status(400).json({ error: weightError });
+    }
+
+    await db('projects').where({ id: project.id }).update({ deploy_strategy: strategy, canary_weight: canaryWeight });
+    await db('logs').insert({
+        project_id: project.id,
+        message: `Deployment strategy set to ${strategy}${strategy === 'canary' ? ` (${canaryWeight}% of traffic)` : ''}`
+    });
+
+    res.json({ message: 'Deployment strategy updated, takes effect on the next deploy', strategy, canaryWeight });
+});
+
+/**
+ * Update the project's scaling and resource profile. Takes effect on the next deploy.
+ * @body { profile: {
+ *   backend?: { requests?: { cpu?, memory? }, limits?: { cpu?, memory? } },
+ *   frontend?: { requests?: { cpu?, memory? }, limits?: { cpu?, memory? } },
+ *   replicas?: { min?: number, max?: number },
+ *   autoscaling?: { cpuUtilization?: number, memoryUtilization?: number },
+ *   storage?: { mysqlSize?: string, mongoSize?: string }
+ * } } - merged over the current profile
+ * @returns { profile, maximums }
+ */
+router.post('/:projectId/settings/resources', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
+    const { db }: { db: Knex } = req as any;
+    const project = (req as any).project;
+    const { profile: update } = req.body;
+
+    if (!update || typeof update !== 'object') {
+        return res.status(400).json({ error: 'Invalid profile - must be an object' });
+    }
+
+    const current = resourceProfileForProject(project);
+    const profile = mergeResourceProfile(current, update);
+    const errors = validateResourceProfile(profile, current);
+    if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid resource profile', errors, maximums: RESOURCE_MAXIMUMS });
+    }
+
+    await db('projects').where({ id: project.id }).update({ resource_profile: JSON.stringify(profile) });
+    await db('logs').insert({
+        project_id: project.id,
+        message: 'Resource profile updated, takes effect on the next deploy'
+    });
+
+    res.json({ message: 'Resource profile updated, takes effect on the next deploy', profile, maximums: RESOURCE_MAXIMUMS });
+});
+
+/**
+ * Set or remove environment variables for the project's backend.
+ * Values are stored encrypted and can't be read back; they're delivered to the
+ * backend container through a Secret on the next deploy.
+ * @body { set?: { [name: string]: string }, unset?: string[] }
+ * @returns { message, environment } - the variable names now defined
+ */
+router.post('/:projectId/settings/env', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
+    const { db }: { db: Knex } = req as any;
+    const project = (req as any).project;
+    const { set = {}, unset = [] } = req.body;
+
+    if (!set || typeof set !== 'object' || Array.isArray(set) || !Array.isArray(unset)) {
+        return res.status(400).json({ error: 'Invalid request - set must be an object of name/value pairs and unset a list of names' });
+    }
+
+    try {
+        const existing = (await listProjectEnv(db, project.id)).map(v => v.name);
+        const errors = validateEnvUpdate(existing, set, unset);
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Invalid environment variables', errors });
+        }
+
+        await updateProjectEnv(db, project.id, set, unset);
+        const changes = [
+            Object.keys(set).length > 0 ? `set ${Object.keys(set).join(', ')}` : null,
+            unset.length > 0 ? `removed ${unset.join(', ')}` : null
+        ].filter(Boolean).join('; ');
+        await db('logs').insert({
+            project_id: project.id,
+            message: `Environment variables updated (${changes || 'no changes'}), takes effect on the next deploy`
+        });
+
+        res.json({ message: 'Environment variables updated, takes effect on the next deploy', environment: await listProjectEnv(db, project.id) });
+    } catch (error: any) {
+        logger.error({ error: error.message }, 'Error updating project environment');
+        res.status(500).json({ error: 'Failed to update environment variables' });
+    }
+});
+
+/**
+ * Queue a redeploy of `source` (a live release of the project or one of its previews) with the
+ * project's current key and admin bearer token. Returns the new deploy and how to follow it.
+ */
+async function queueKeyRotationRedeploy(db: Knex, wallet: WalletInterface, project: any, user: any, source: any) {
+    const deploymentId = crypto.randomBytes(16).toString('hex');
+    const [depId] = await db('deploys').insert({
+        deployment_uuid: deploymentId,
+        project_id: project.id,
+        creator_identity_key: user.identity_key,
+        status: 'queued',
+        rollback_of_deploy_id: source.id,
+        preview_id: source.preview_id,
+        frontend_image: source.frontend_image,
+        backend_image: source.backend_image
+    });
+    await db('logs').insert({
+        project_id: project.id,
+        deploy_id: depId,
+        message: `Redeploying deployment ${source.deployment_uuid} with the rotated project key and admin bearer token`
+    });
+
+    const deploy = await db('deploys').where({ id: depId }).first();
+    return {
+        deploy,
+        redeploy: {
+            deploymentId,
+            jobId: await enqueueDeploymentJob(db, deploy, 'rollback'),
+            outputUrl: await createBuildOutputUrl(wallet, deploymentId)
+        }
+    };
+}
+
+/**
+ * Rotate the project's private key and admin bearer token
+ * Generates a new key and token, moves the old key's balance to the new key and redeploys the live
+ * release, and the live release of each preview, so they all pick both up. The rotation is recorded
+ * in the project log. The new admin bearer token is returned only in this response.
+ * Refused while a deployment is queued, running or awaiting promotion, since the redeploy would
+ * otherwise replace whatever that deployment releases.
+ * If the sweep fails the new key still takes effect; the old key is kept so its funds can be recovered.
+ * @returns { message, publicKey, previousPublicKey, adminBearerToken, sweptSatoshis, sweepError, redeploy: { deploymentId, jobId, outputUrl } | null, previewRedeploys: { preview, deploymentId, jobId, outputUrl }[] }
+ */
+router.post('/:projectId/keys/rotate', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
+    const { db, mainnetWallet: wallet }: { db: Knex, mainnetWallet: WalletInterface } = req as any;
+    const project = (req as any).project;
+    const user = (req as any).user;
+
+    try {
+        const inProgress = await findDeploymentInProgress(db, project.id);
+        if (inProgress) {
+            return res.status(409).json({
+                error: `Deployment ${inProgress.deploymentId} is in progress for this project; rotate the key once it has finished`,
+                lockedBy: inProgress.deploymentId
+            });
+        }
+        const staged = await db('deploys').where({ project_id: project.id, status: 'awaiting_promotion' }).first();
+        if (staged) {
+            return res.status(409).json({
+                error: `Deployment ${staged.deployment_uuid} is awaiting promotion; promote or abort it before rotating the key`,
+                lockedBy: staged.deployment_uuid
+            });
+        }
+
+        const rotation = await rotateProjectKey(db, project, user.identity_key);
+        if (rotation.rejection) {
+            return res.status(409).json({ error: rotation.rejection });
+        }
+
+        await db('logs').insert({
+            project_id: project.id,
+            message: `Project key and admin bearer token rotated by ${user.identity_key} (${user.email}): ${rotation.previousPublicKey} -> ${rotation.publicKey}, ` +
+                (rotation.sweepError ? `sweep failed: ${rotation.sweepError}` : `${rotation.sweptSatoshis} satoshis swept`)
+        });
+        logger.info({ projectId: project.project_uuid, publicKey: rotation.publicKey }, 'Project key rotated');
+
+        // Redeploy the releases that are live now, re-rendered with the new key and token
+        let redeploy = null;
+        const live = await liveRelease(db, project.id, null);
+        if (live) {
+            const queued = await queueKeyRotationRedeploy(db, wallet, project, user, live.deploy);
+            await db('project_key_rotations').where({ id: rotation.rotationId }).update({ deploy_id: queued.deploy.id });
+            redeploy = queued.redeploy;
+        }
+        const previewRedeploys = [];
+        const previews = await db('project_previews').where({ project_id: project.id }).whereNull('deleted_at').orderBy('id');
+        for (const preview of previews) {
+            const livePreview = await liveRelease(db, project.id, preview.id);
+            if (!livePreview) continue;
+            const queued = await queueKeyRotationRedeploy(db, wallet, project, user, livePreview.deploy);
+            previewRedeploys.push({ preview: preview.name, ...queued.redeploy });
+        }
+
+        res.json({
+            message: redeploy || previewRedeploys.length > 0 ? 'Project key rotated, redeploy queued' : 'Project key rotated, takes effect on the next deploy',
+            publicKey: rotation.publicKey,
+            previousPublicKey: rotation.previousPublicKey,
+            adminBearerToken: rotation.adminBearerToken,
+            sweptSatoshis: rotation.sweptSatoshis,
+            sweepError: rotation.sweepError,
+            redeploy,
+            previewRedeploys
+        });
+    } catch (error: any) {
+        logger.error({ error: error.message }, 'Error rotating project key');
+        res.status(500).json({ error: 'Failed to rotate project key' });
+    }
+});
+
 /**
  * ==============================
  * PROXY ADMIN ENDPOINTS
@@ -984,7 +1614,7 @@ export function getBackendDomain(project: any) {
  */
 router.post('/:projectId/admin/syncAdvertisements', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
     const project = (req as any).project;
-    const adminBearerToken = project.admin_bearer_token;
+    const adminBearerToken = projectAdminToken(project);
     if (!adminBearerToken) {
         return res.status(400).json({ error: 'No admin bearer token stored for this project' });
     }
@@ -1018,7 +1648,7 @@ router.post('/:projectId/admin/syncAdvertisements', requireRegisteredUser, requi
  */
 router.post('/:projectId/admin/evictOutpoint', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
     const project = (req as any).project;
-    const adminBearerToken = project.admin_bearer_token;
+    const adminBearerToken = projectAdminToken(project);
     if (!adminBearerToken) {
         return res.status(400).json({ error: 'No admin bearer token stored for this project' });
     }
@@ -1059,7 +1689,7 @@ router.post('/:projectId/admin/evictOutpoint', requireRegisteredUser, requirePro
  */
 router.post('/:projectId/admin/startGASPSync', requireRegisteredUser, requireProject, requireProjectAdmin, async (req: Request, res: Response) => {
     const project = (req as any).project;
-    const adminBearerToken = project.admin_bearer_token;
+    const adminBearerToken = projectAdminToken(project);
     if (!adminBearerToken) {
         return res.status(400).json({ error: 'No admin bearer token stored for this project' });
     }
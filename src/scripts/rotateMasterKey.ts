@@ -0,0 +1,70 @@
+/**
+ * Re-wraps every encrypted value in the database under a new master key.
+ *
+ * Usage (with the node stopped, and the same environment the node runs with):
+ *   CARS_NEW_MASTER_KEY=<64 hex chars or base64> npm run rotate-master-key
+ *
+ * The current key is read from CARS_MASTER_KEY as usual. Values already under the
+ * new key are left alone, so an interrupted rotation can simply be run again.
+ * Afterwards set CARS_MASTER_KEY to the new key and start the node.
+ */
+import type { Knex } from 'knex';
+import db from '../db';
+import logger from '../logger';
+import { encryptValue, getMasterKey, isEncrypted, masterKeyId, parseMasterKey, rewrapValue } from '../utils/encryption';
+
+// Every column that holds sealed values
+const ENCRYPTED_COLUMNS: Array<{ table: string, columns: string[] }> = [
+    { table: 'projects', columns: ['private_key', 'admin_bearer_token', 'db_credentials'] },
+    { table: 'project_env_vars', columns: ['value'] },
+    { table: 'project_key_rotations', columns: ['previous_private_key'] }
+];
+
+export async function rotateMasterKey(knex: Knex, oldKey: Buffer, newKey: Buffer): Promise<number> {
+    let rewrapped = 0;
+    await knex.transaction(async trx => {
+        for (const { table, columns } of ENCRYPTED_COLUMNS) {
+            const rows = await trx(table).select('id', ...columns).forUpdate();
+            for (const row of rows) {
+                const update: Record<string, string> = {};
+                for (const column of columns) {
+                    const value = row[column];
+                    if (value === null || value === undefined) continue;
+                    // Anything still in plaintext is sealed under the new key on the way through
+                    const next = isEncrypted(value) ? rewrapValue(value, oldKey, newKey) : encryptValue(value, newKey);
+                    if (next !== value) update[column] = next;
+                }
+                if (Object.keys(update).length > 0) {
+                    await trx(table).where({ id: row.id }).update(update);
+                    rewrapped++;
+                }
+            }
+        }
+    });
+    return rewrapped;
+}
+
+async function main() {
+    if (!process.env.CARS_NEW_MASTER_KEY) {
+        throw new Error('Set CARS_NEW_MASTER_KEY to the key to rotate to');
+    }
+    const oldKey = getMasterKey();
+    const newKey = parseMasterKey(process.env.CARS_NEW_MASTER_KEY);
+    if (masterKeyId(oldKey) === masterKeyId(newKey)) {
+        throw new Error('The new master key is the same as the current one');
+    }
+
+    logger.info(`Rotating master key ${masterKeyId(oldKey)} -> ${masterKeyId(newKey)}...`);
+    const rewrapped = await rotateMasterKey(db, oldKey, newKey);
+    logger.info(`Master key rotated: ${rewrapped} rows updated. Set CARS_MASTER_KEY to the new key before starting the node.`);
+}
+
+if (require.main === module) {
+    main()
+        .then(() => db.destroy())
+        .catch(async (error) => {
+            logger.error(`Master key rotation failed, nothing was changed: ${error.message}`);
+            await db.destroy();
+            process.exit(1);
+        });
+}
@@ -6,12 +6,18 @@ import { createPaymentMiddleware } from '@bsv/payment-express-middleware';
 import bodyParser from 'body-parser';
 import routes from './routes';
 import upload from './routes/upload';
+import { initiateChunkedUpload, uploadChunk, finalizeChunkedUpload } from './routes/chunkedUpload';
+import buildOutput from './routes/buildOutput';
 import publicRoute from './routes/public';
 import globalEviction from './routes/globalEviction';
 import { initCluster } from './init-cluster';
+import { loadClusterTopology } from './utils/clusterTopology';
+import { loadImageBuilder } from './utils/imageBuilder';
 import { startCronJobs } from './cron';
+import { startDeploymentWorker } from './utils/deployJobs';
 import timeout from 'connect-timeout';
 import { makeWallet } from './utils/wallet';
+import { getMasterKey } from './utils/encryption';
 import { collectSystemHealth } from './health';
 
 const port = parseInt(process.env.CARS_NODE_PORT || '7777', 10);
@@ -33,6 +39,9 @@ function haltOnTimedout(req, res, next) {
 async function main() {
     let migrationsComplete = false;
 
+    // Fails on a missing or malformed CARS_MASTER_KEY before the migrations encrypt any stored secret
+    getMasterKey();
+
     // Run migrations
     logger.info('Running database migrations...');
     await db.migrate.latest();
@@ -45,14 +54,15 @@ async function main() {
 
     if (INIT_K3S) {
         await initCluster();
+    } else {
+        await loadClusterTopology();
     }
+    loadImageBuilder();
     startCronJobs(db, mainnetWallet, testnetWallet);
+    startDeploymentWorker(db, mainnetWallet, testnetWallet);
 
     const app = express();
 
-    app.use(bodyParser.json({ limit: '1gb' }));
-    app.use(bodyParser.raw({ type: 'application/octet-stream', limit: '1gb' }));
-
     // CORS
     app.use((req, res, next) => {
         res.header('Access-Control-Allow-Origin', '*')
@@ -73,6 +83,12 @@ async function main() {
         next();
     });
 
+    // Upload chunks are streamed straight to disk, so they are registered before the body parsers.
+    app.put('/api/v1/upload/:deploymentId/:signature/chunks/:index', timeout('30m'), haltOnTimedout, uploadChunk);
+
+    app.use(bodyParser.json({ limit: '1gb' }));
+    app.use(bodyParser.raw({ type: 'application/octet-stream', limit: '1gb' }));
+
     app.get('/health/live', async (_req, res) => {
         const report = await collectSystemHealth(db, {
             mainnetWalletReady: true,
@@ -102,6 +118,12 @@ async function main() {
 
     // Upload uses signed URLs, so is excluded from Authrite. Also, they are not logged for performance reasons (they are large).
     app.post('/api/v1/upload/:deploymentId/:signature', timeout('2h'), haltOnTimedout, upload);
+    app.post('/api/v1/upload/:deploymentId/:signature/chunked', initiateChunkedUpload);
+    app.post('/api/v1/upload/:deploymentId/:signature/finalize', timeout('10m'), haltOnTimedout, finalizeChunkedUpload);
+
+    // Build output streams are Server-Sent Events behind a signed URL. They are excluded from Authrite,
+    // which buffers and signs whole responses and so cannot stream.
+    app.get('/api/v1/deploy-output/:deploymentId/:signature', buildOutput);
 
     // Public queries are also not authenticated
     app.get('/api/v1/public', publicRoute)
@@ -8,8 +8,24 @@ export interface CARSConfigInfo {
   schemaVersion: string;
   topicManagers?: Record<string, string>;
   lookupServices?: Record<string, { serviceFactory: string; hydrateWith?: string }>;
-  frontend?: { language: string; sourceDirectory: string };
+  frontend?: {
+    language: string;
+    sourceDirectory: string;
+    // Build the frontend on the node from sourceDirectory instead of uploading it prebuilt in frontend/
+    serverBuild?: boolean;
+    // Where the build writes its output, relative to sourceDirectory (detected from the framework by default)
+    outputDirectory?: string;
+  };
   contracts?: { language: string; baseDirectory: string };
+  backend?: {
+    // Exact @bsv/overlay-express version to build the backend with, instead of the latest ^2.2.0
+    overlayExpressVersion?: string;
+    // Dockerfile inside backend/ to build instead of the generated OverlayExpress image
+    dockerfile?: string;
+    // Image to build the generated OverlayExpress backend on, instead of docker.io/node:22-alpine
+    baseImage?: string;
+    buildArgs?: Record<string, string>;
+  };
   configs?: CARSConfig[];
 }
 
@@ -18,6 +34,8 @@ export interface CARSConfig {
   projectID?: string;
   deploy?: string[];
   network?: string;
+  // Extra URLs or paths to check once a deploy has rolled out
+  smokeTests?: Array<string | { path?: string; url?: string; expectStatus?: number }>;
 }
 
 /**
@@ -143,9 +161,9 @@ main()`;
 /**
  * generatePackageJson:
  * Produces a minimal package.json so the container can install dependencies
- * (including overlay-express) at build time.
+ * (including overlay-express, at "overlayExpressVersion" if pinned) at build time.
  */
-export function generatePackageJson(backendDependencies: Record<string, string>) {
+export function generatePackageJson(backendDependencies: Record<string, string>, overlayExpressVersion?: string) {
   const packageJsonContent = {
     "name": "overlay-express-dev",
     "version": "1.0.0",
@@ -159,7 +177,7 @@ export function generatePackageJson(backendDependencies: Record<string, string>)
     "license": "ISC",
     "dependencies": {
       ...backendDependencies,
-      "@bsv/overlay-express": "^2.2.0",
+      "@bsv/overlay-express": overlayExpressVersion || "^2.2.0",
       "mysql2": "^3.11.5",
       "tsx": "^4.19.2",
       "chalk": "^5.3.0"
@@ -171,16 +189,77 @@ export function generatePackageJson(backendDependencies: Record<string, string>)
   return packageJsonContent;
 }
 
+/**
+ * generateLockDockerfile:
+ * Produces a Dockerfile that locks the backend's dependencies on the same base image and
+ * build arguments as the dependency layer, starting from the uploaded lockfile if there is one.
+ * Its final stage holds nothing but the resulting package-lock.json, so it can be exported
+ * to a directory instead of being kept as an image.
+ */
+export function generateLockDockerfile(includeLockfile: boolean, baseImage?: string, buildArgNames: string[] = []) {
+  let file = `FROM ${baseImage || 'docker.io/node:22-alpine'} AS lock`
+  for (const name of buildArgNames) {
+    file += `
+ARG ${name}`
+  }
+  file += `
+WORKDIR /app
+COPY ./package.json .`
+  if (includeLockfile) {
+    file += `
+COPY ./package-lock.json .`
+  }
+  file += `
+RUN npm install --package-lock-only --ignore-scripts --no-audit --no-fund
+
+FROM scratch
+COPY --from=lock /app/package-lock.json /package-lock.json`
+  return file;
+}
+
+/**
+ * generateDependenciesDockerfile:
+ * Produces a Dockerfile for the backend's dependency layer: just the
+ * package.json (and lockfile, if there is one) and the npm install.
+ * With a lockfile the install is an "npm ci", so exactly the locked versions are used.
+ * Build arguments are declared so they are visible to the install (e.g. for native modules).
+ */
+export function generateDependenciesDockerfile(includeLockfile: boolean, baseImage?: string, buildArgNames: string[] = []) {
+  let file = `FROM ${baseImage || 'docker.io/node:22-alpine'}`
+  for (const name of buildArgNames) {
+    file += `
+ARG ${name}`
+  }
+  file += `
+WORKDIR /app
+COPY ./package.json .`
+  if (includeLockfile) {
+    file += `
+COPY ./package-lock.json .
+RUN npm ci`
+  } else {
+    file += `
+RUN npm i`
+  }
+  return file;
+}
+
 /**
  * generateDockerfile:
  * Produces a Dockerfile for building the backend environment
  * with optional contract artifacts if "enableContracts" is true.
+ * Given a "dependenciesImage" (see generateDependenciesDockerfile), it builds
+ * on top of that instead of installing dependencies itself.
  */
-export function generateDockerfile(enableContracts: boolean) {
-  let file = `FROM docker.io/node:22-alpine
+export function generateDockerfile(enableContracts: boolean, dependenciesImage?: string) {
+  let file = dependenciesImage
+    ? `FROM ${dependenciesImage}
+WORKDIR /app`
+    : `FROM docker.io/node:22-alpine
 WORKDIR /app
 COPY ./package.json .
-RUN npm i
+RUN npm i`
+  file += `
 COPY ./index.ts .
 COPY ./tsconfig.json .
 COPY ./wait-for-services.sh /wait-for-services.sh
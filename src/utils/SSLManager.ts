@@ -1,9 +1,11 @@
 import dns from 'dns'
 import http from 'http'
 import { execSync } from 'child_process'
+import { getClusterTopology } from './clusterTopology'
 
 export async function checkAndIssueCertificates() {
     try {
+        const { clusterIssuer } = getClusterTopology();
         const ingressList = JSON.parse(execSync('kubectl get ingresses -l created-by=cars --all-namespaces -o json').toString());
         for (const ing of ingressList.items) {
             const hosts: string[] = [];
@@ -17,12 +19,12 @@ export async function checkAndIssueCertificates() {
             const ingressName = ing.metadata.name;
             const ingressNamespace = ing.metadata.namespace;
 
-            const hasAnnotation = ing.metadata.annotations && ing.metadata.annotations["cert-manager.io/cluster-issuer"] === "letsencrypt-production";
+            const hasAnnotation = ing.metadata.annotations && ing.metadata.annotations["cert-manager.io/cluster-issuer"] === clusterIssuer;
 
             if (!hasAnnotation) {
                 // Patch ingress to add annotation
                 console.log(`Adding cert-manager annotation to ${ingressNamespace}/${ingressName}`);
-                execSync(`kubectl annotate ingress ${ingressName} -n ${ingressNamespace} cert-manager.io/cluster-issuer=letsencrypt-production --overwrite`);
+                execSync(`kubectl annotate ingress ${ingressName} -n ${ingressNamespace} cert-manager.io/cluster-issuer=${clusterIssuer} --overwrite`);
             }
         }
     } catch (err) {
@@ -0,0 +1,156 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { inspectArtifact, type ArtifactLimits } from '../artifact';
+
+interface TarEntry {
+    name: string;
+    // Tar type flag: '0' file, '5' directory, '1' hardlink, '2' symlink, 'x' pax header, 'L' GNU long name
+    type?: string;
+    content?: string | Buffer;
+    linkname?: string;
+    prefix?: string;
+    // Size recorded in the header, when it should differ from the content's
+    size?: number;
+}
+
+function header(entry: TarEntry, size: number): Buffer {
+    const block = Buffer.alloc(512);
+    block.write(entry.name.slice(0, 100), 0, 'utf8');
+    block.write('0000644\0', 100);
+    block.write('0000000\0', 108);
+    block.write('0000000\0', 116);
+    block.write(`${size.toString(8).padStart(11, '0')}\0`, 124);
+    block.write('00000000000\0', 136);
+    block.write(entry.type || '0', 156);
+    if (entry.linkname) block.write(entry.linkname, 157);
+    block.write('ustar\0', 257);
+    block.write('00', 263);
+    if (entry.prefix) block.write(entry.prefix, 345);
+    // Checksum is computed with its own field read as spaces
+    block.fill(0x20, 148, 156);
+    const checksum = block.reduce((sum, byte) => sum + byte, 0);
+    block.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+    return block;
+}
+
+/**
+ * A tar archive of `entries`, closed with the two zero blocks unless `end` is false.
+ */
+function tar(entries: TarEntry[], end = true): Buffer {
+    const blocks: Buffer[] = [];
+    for (const entry of entries) {
+        const content = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content ?? '', 'utf8');
+        blocks.push(header(entry, entry.size ?? content.length));
+        blocks.push(content, Buffer.alloc((512 - (content.length % 512)) % 512));
+    }
+    if (end) blocks.push(Buffer.alloc(1024));
+    return Buffer.concat(blocks);
+}
+
+function paxRecord(key: string, value: string): string {
+    const body = ` ${key}=${value}\n`;
+    let length = body.length + 1;
+    while (`${length}${body}`.length !== length) length++;
+    return `${length}${body}`;
+}
+
+describe('inspectArtifact', () => {
+    const limits: ArtifactLimits = { maxArtifactBytes: 1024 * 1024, maxExtractedBytes: 64 * 1024, maxEntries: 10 };
+    let dir: string;
+
+    async function inspect(archive: Buffer, overrides: Partial<ArtifactLimits> = {}, gzip = true) {
+        const filePath = path.join(dir, `${crypto.randomBytes(4).toString('hex')}.tgz`);
+        fs.writeFileSync(filePath, gzip ? zlib.gzipSync(archive) : archive);
+        return inspectArtifact(filePath, { ...limits, ...overrides });
+    }
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cars-artifact-'));
+    });
+    afterEach(() => {
+        fs.removeSync(dir);
+    });
+
+    it('accepts files and directories and returns the SHA-256 of the compressed file and its totals', async () => {
+        const archive = zlib.gzipSync(tar([
+            { name: 'backend/', type: '5' },
+            { name: 'backend/package.json', content: '{}' },
+            { name: 'deployment-info.json', content: '{"schema":"bsv-app"}' }
+        ]));
+        const filePath = path.join(dir, 'artifact.tgz');
+        fs.writeFileSync(filePath, archive);
+
+        expect(await inspectArtifact(filePath, limits)).toEqual({
+            sha256: crypto.createHash('sha256').update(archive).digest('hex'),
+            compressedBytes: archive.length,
+            extractedBytes: 22,
+            entries: 3
+        });
+    });
+
+    it('joins the ustar prefix to the name', async () => {
+        await expect(inspect(tar([{ name: 'index.ts', prefix: '../escape' }]))).rejects.toThrow('escapes the build directory: ../escape/index.ts');
+    });
+
+    it('rejects absolute paths and paths that escape the build directory', async () => {
+        await expect(inspect(tar([{ name: '/etc/passwd', content: 'x' }]))).rejects.toThrow('absolute path: /etc/passwd');
+        await expect(inspect(tar([{ name: 'C:\\Windows\\x', content: 'x' }]))).rejects.toThrow('absolute path');
+        await expect(inspect(tar([{ name: 'backend/../../x', content: 'x' }]))).rejects.toThrow('escapes the build directory');
+        await expect(inspect(tar([{ name: '..', type: '5' }]))).rejects.toThrow('escapes the build directory');
+    });
+
+    it('rejects symlinks, hardlinks and other special entries', async () => {
+        await expect(inspect(tar([{ name: 'link', type: '2', linkname: '/etc/passwd' }]))).rejects.toThrow('contains a link, which is not allowed: link');
+        await expect(inspect(tar([{ name: 'hard', type: '1', linkname: 'backend/package.json' }]))).rejects.toThrow('contains a link');
+        await expect(inspect(tar([{ name: 'long', type: 'K', content: 'target' }]))).rejects.toThrow('contains a link');
+        await expect(inspect(tar([{ name: 'dev', type: '3' }]))).rejects.toThrow("unsupported entry type '3'");
+    });
+
+    it('applies pax and GNU long name overrides to the entry that follows', async () => {
+        const longName = `frontend/${'a'.repeat(150)}/index.html`;
+        await expect(inspect(tar([
+            { name: 'PaxHeader', type: 'x', content: paxRecord('path', longName) },
+            { name: 'short', content: '<html></html>' }
+        ]))).resolves.toMatchObject({ entries: 1 });
+
+        await expect(inspect(tar([
+            { name: 'PaxHeader', type: 'x', content: paxRecord('path', '../../etc/cron.d/x') },
+            { name: 'harmless', content: 'x' }
+        ]))).rejects.toThrow('escapes the build directory: ../../etc/cron.d/x');
+        await expect(inspect(tar([
+            { name: '././@LongLink', type: 'L', content: '/root/.ssh/authorized_keys\0' },
+            { name: 'harmless', content: 'x' }
+        ]))).rejects.toThrow('absolute path: /root/.ssh/authorized_keys');
+        await expect(inspect(tar([
+            { name: 'PaxHeader', type: 'x', content: paxRecord('linkpath', '/etc/passwd') },
+            { name: 'harmless', content: 'x' }
+        ]))).rejects.toThrow('contains a link');
+    });
+
+    it('enforces the entry count, extracted size and compressed size limits', async () => {
+        const files = (count: number) => Array.from({ length: count }, (_, i) => ({ name: `f${i}`, content: 'x' }));
+        await expect(inspect(tar(files(10)))).resolves.toMatchObject({ entries: 10 });
+        await expect(inspect(tar(files(11)))).rejects.toThrow('more than the project limit of 10 entries');
+
+        await expect(inspect(tar([{ name: 'big', content: Buffer.alloc(64 * 1024 + 1) }]))).rejects.toThrow('expands beyond the project limit of 65536 bytes');
+        await expect(inspect(tar([{ name: 'small', content: 'x' }]), { maxArtifactBytes: 10 })).rejects.toThrow('over the project limit of 10 bytes');
+    });
+
+    it('stops a gzip bomb by the bytes it decompresses to, not only the sizes its headers declare', async () => {
+        // Megabytes of zeros after the end of the archive compress to almost nothing
+        const trailing = Buffer.concat([tar([{ name: 'a', content: 'x' }]), Buffer.alloc(16 * 1024 * 1024)]);
+        expect(zlib.gzipSync(trailing).length).toBeLessThan(limits.maxArtifactBytes);
+        await expect(inspect(trailing)).rejects.toThrow('expands beyond the project limit of 65536 bytes');
+    });
+
+    it('rejects corrupt, truncated and empty artifacts', async () => {
+        await expect(inspect(Buffer.from('not gzip at all'), {}, false)).rejects.toThrow('not a valid gzipped tarball');
+        const gzipped = zlib.gzipSync(tar([{ name: 'a', content: 'x'.repeat(2000) }]));
+        await expect(inspect(gzipped.subarray(0, gzipped.length - 20), {}, false)).rejects.toThrow('not a valid gzipped tarball');
+        await expect(inspect(tar([{ name: 'a', content: 'x'.repeat(2000), size: 4000 }], false))).rejects.toThrow('truncated or not a valid tarball');
+        await expect(inspect(tar([]))).rejects.toThrow('Artifact is empty');
+    });
+});
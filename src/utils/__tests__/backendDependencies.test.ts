@@ -0,0 +1,102 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { lockBackendDependencies, lockedVersions } from '../backendDependencies';
+import { recordingImageBuilder } from '../imageBuilder';
+import type { CARSConfigInfo } from '../../utils';
+import { lockfileFor, validatedDeployment } from './fixtures';
+
+describe('backendDependencies', () => {
+    describe('lockedVersions', () => {
+        const packageJson = { dependencies: { 'left-pad': '^1.3.0', 'missing': '*' }, devDependencies: { 'typescript': '^5.0.0' } };
+
+        it('reads v1 lockfiles from their dependencies', () => {
+            const lock = { lockfileVersion: 1, dependencies: { 'left-pad': { version: '1.3.0' }, 'typescript': { version: '5.4.5' }, 'transitive': { version: '2.0.0' } } };
+            expect(lockedVersions(lock, packageJson)).toEqual({ 'left-pad': '1.3.0', 'typescript': '5.4.5' });
+        });
+
+        it('reads v2 and v3 lockfiles from their packages', () => {
+            const lock = {
+                lockfileVersion: 3,
+                packages: {
+                    '': { dependencies: packageJson.dependencies },
+                    'node_modules/left-pad': { version: '1.3.0' },
+                    'node_modules/typescript': { version: '5.4.5' },
+                    'node_modules/left-pad/node_modules/nested': { version: '0.1.0' }
+                }
+            };
+            expect(lockedVersions(lock, packageJson)).toEqual({ 'left-pad': '1.3.0', 'typescript': '5.4.5' });
+        });
+
+        it('prefers packages when a v2 lockfile has both', () => {
+            const lock = { lockfileVersion: 2, packages: { 'node_modules/left-pad': { version: '1.3.0' } }, dependencies: { 'left-pad': { version: '1.1.0' } } };
+            expect(lockedVersions(lock, { dependencies: { 'left-pad': '^1.0.0' } })).toEqual({ 'left-pad': '1.3.0' });
+        });
+    });
+
+    describe('lockBackendDependencies', () => {
+        let workDir: string;
+        let backendDir: string;
+
+        function validated(backend: CARSConfigInfo['backend'] = {}) {
+            return validatedDeployment(workDir, backend);
+        }
+
+        function lockingBuilder(overlayExpress?: string) {
+            return recordingImageBuilder({ exportFiles: lockfileFor(overlayExpress) });
+        }
+
+        const run = async () => {};
+
+        beforeEach(() => {
+            workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cars-backend-lock-'));
+            backendDir = path.join(workDir, 'backend');
+        });
+        afterEach(() => {
+            fs.removeSync(workDir);
+        });
+
+        it('locks the generated package.json in the build image with the build arguments', async () => {
+            const builder = lockingBuilder();
+            const locked = await lockBackendDependencies(backendDir, validated({ buildArgs: { NODE_OPTIONS: '--max-old-space-size=1024' } }), path.join(workDir, 'lock'), builder, run);
+
+            expect(locked.lockfile).toBe('generated');
+            expect(locked.versions['left-pad']).toBe('1.0.0');
+            expect(locked.versions['@bsv/overlay-express']).toBe('2.2.0');
+            expect(JSON.parse(locked.packageLock).lockfileVersion).toBe(3);
+
+            const [call] = builder.calls;
+            expect(call.action).toBe('export');
+            expect(call.buildArgs).toEqual({ NODE_OPTIONS: '--max-old-space-size=1024' });
+            expect(call.dockerfile).toContain('ARG NODE_OPTIONS');
+            expect(call.dockerfile).toContain('npm install --package-lock-only');
+            expect(call.dockerfile).not.toContain('COPY ./package-lock.json');
+        });
+
+        it('starts from an uploaded lockfile without modifying the backend directory', async () => {
+            const deployment = validated();
+            fs.writeFileSync(path.join(backendDir, 'package-lock.json'), '{"lockfileVersion":3,"packages":{}}');
+            const before = fs.readdirSync(backendDir).map(name => [name, fs.readFileSync(path.join(backendDir, name), 'utf-8')]);
+            const builder = lockingBuilder();
+
+            const locked = await lockBackendDependencies(backendDir, deployment, path.join(workDir, 'lock'), builder, run);
+
+            expect(locked.lockfile).toBe('uploaded');
+            expect(builder.calls[0].dockerfile).toContain('COPY ./package-lock.json');
+            expect(fs.readFileSync(path.join(builder.calls[0].contextDir!, 'package-lock.json'), 'utf-8')).toBe('{"lockfileVersion":3,"packages":{}}');
+            expect(fs.readdirSync(backendDir).map(name => [name, fs.readFileSync(path.join(backendDir, name), 'utf-8')])).toEqual(before);
+        });
+
+        it('honours the pinned overlay-express version', async () => {
+            const locked = await lockBackendDependencies(backendDir, validated({ overlayExpressVersion: '2.2.0' }), path.join(workDir, 'lock'), lockingBuilder('2.2.0'), run);
+            expect(locked.versions['@bsv/overlay-express']).toBe('2.2.0');
+            await expect(lockBackendDependencies(backendDir, validated({ overlayExpressVersion: '2.2.0' }), path.join(workDir, 'lock'), lockingBuilder('2.3.1'), run))
+                .rejects.toThrow('@bsv/overlay-express locked at 2.3.1, but deployment-info.json pins 2.2.0');
+        });
+
+        it('fails when the build produces no lockfile', async () => {
+            await expect(lockBackendDependencies(backendDir, validated(), path.join(workDir, 'lock'), recordingImageBuilder(), run))
+                .rejects.toThrow('Locking the backend dependencies did not produce a package-lock.json');
+        });
+    });
+});
@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import type { Knex as KnexInstance } from 'knex';
+import { billProjects, namespaceUsageCosts } from '../billing';
+import { testDatabase } from './fixtures';
+
+// Prometheus answers from mockUsage, by the metric and namespace each query asks about
+jest.mock('../../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../email', () => ({ sendThresholdEmail: jest.fn(async () => {}) }));
+jest.mock('../../db', () => ({ __esModule: true, get default() { return mockDb; } }));
+jest.mock('axios');
+
+const GiB = 1024 * 1024 * 1024;
+let mockDb: KnexInstance;
+let mockUsage: Record<string, Record<string, number | Error>> = {};
+
+const metrics = ['container_cpu_usage_seconds_total', 'container_memory_working_set_bytes', 'container_network_receive_bytes_total', 'kubelet_volume_stats_used_bytes'];
+
+(axios.get as jest.Mock).mockImplementation(async (_url: string, { params }: { params: { query: string } }) => {
+    const metric = metrics.find(name => params.query.includes(name))!;
+    const namespace = params.query.match(/namespace="([^"]+)"/)![1];
+    const value = mockUsage[namespace]?.[metric];
+    if (value instanceof Error) throw value;
+    return { data: { status: 'success', data: { result: value === undefined ? [] : [{ value: [0, String(value)] }] } } };
+});
+
+describe('billing', () => {
+    beforeEach(() => {
+        mockUsage = {};
+    });
+
+    describe('namespaceUsageCosts', () => {
+        it('prices the CPU, memory, disk and network a namespace used at the default rates, rounding up', async () => {
+            mockUsage['cars-project-a'] = {
+                container_cpu_usage_seconds_total: 0.5,
+                container_memory_working_set_bytes: 2 * GiB,
+                kubelet_volume_stats_used_bytes: 1.5 * GiB,
+                container_network_receive_bytes_total: 0.001 * GiB
+            };
+            expect(await namespaceUsageCosts('cars-project-a')).toEqual({ cpuCost: 500, memCost: 1000, diskCost: 15, netCost: 1 });
+        });
+
+        it('costs nothing for metrics Prometheus has no series for, or volumes it cannot report', async () => {
+            mockUsage['cars-project-a'] = { container_cpu_usage_seconds_total: 0.25, kubelet_volume_stats_used_bytes: new Error('query failed') };
+            expect(await namespaceUsageCosts('cars-project-a')).toEqual({ cpuCost: 250, memCost: 0, diskCost: 0, netCost: 0 });
+        });
+    });
+
+    describe('billProjects', () => {
+        beforeAll(async () => {
+            process.env.CARS_MASTER_KEY = crypto.randomBytes(32).toString('hex');
+            mockDb = await testDatabase();
+        });
+
+        afterAll(async () => {
+            await mockDb.destroy();
+        });
+
+        it('bills the project for its own namespace and those of its live previews', async () => {
+            const uuid = crypto.randomBytes(16).toString('hex');
+            const [projectId] = await mockDb('projects').insert({ project_uuid: uuid, name: 'Billing test', network: 'testnet', private_key: 'unused', balance: 100000 });
+            await mockDb('project_previews').insert([
+                { project_id: projectId, name: 'feature', expires_at: new Date(Date.now() + 3600000) },
+                { project_id: projectId, name: 'gone', expires_at: new Date(), deleted_at: new Date() }
+            ]);
+            mockUsage[`cars-project-${uuid}`] = { container_cpu_usage_seconds_total: 1 };
+            mockUsage[`cars-project-${uuid}-feature`] = { container_memory_working_set_bytes: GiB };
+            mockUsage[`cars-project-${uuid}-gone`] = { container_cpu_usage_seconds_total: 10 };
+
+            await billProjects();
+
+            expect(Number((await mockDb('projects').where({ id: projectId }).first()).balance)).toBe(100000 - 1000 - 500);
+            const debit = await mockDb('project_accounting').where({ project_id: projectId }).first();
+            expect(debit).toMatchObject({ type: 'debit', amount_sats: 1500 });
+            expect(JSON.parse(debit.metadata)).toMatchObject({ cpuCost: 1000, memCost: 0, previewCosts: { feature: 500 } });
+            expect((await mockDb('logs').where({ project_id: projectId }).first()).message).toMatch(/^Billed 1500 sat \(CPU:1000, MEM:0, DISK:0, NET:0, PREVIEWS:500\)/);
+        });
+    });
+});
@@ -0,0 +1,66 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { dependencyCacheKey, planDependencyLayer } from '../buildCache';
+import type { CARSConfigInfo } from '../../utils';
+import { testProject, validatedDeployment } from './fixtures';
+
+describe('buildCache', () => {
+    describe('dependencyCacheKey', () => {
+        const files = { 'Dockerfile': 'FROM node:22\nRUN npm ci\n', 'package.json': '{"dependencies":{}}' };
+
+        it('is a sha256 hex digest', () => {
+            expect(dependencyCacheKey(files)).toMatch(/^[0-9a-f]{64}$/);
+        });
+
+        it('does not depend on the order the files are given in', () => {
+            expect(dependencyCacheKey({ 'package.json': files['package.json'], 'Dockerfile': files['Dockerfile'] }))
+                .toBe(dependencyCacheKey(files));
+        });
+
+        it('changes with the content and the names of the files', () => {
+            const key = dependencyCacheKey(files);
+            expect(dependencyCacheKey({ ...files, 'package.json': '{"dependencies":{"left-pad":"1.3.0"}}' })).not.toBe(key);
+            expect(dependencyCacheKey({ 'Dockerfile.other': files['Dockerfile'], 'package.json': files['package.json'] })).not.toBe(key);
+            expect(dependencyCacheKey({ ...files, 'package-lock.json': '{}' })).not.toBe(key);
+        });
+
+        it('keeps names and contents apart', () => {
+            expect(dependencyCacheKey({ 'a': 'bc' })).not.toBe(dependencyCacheKey({ 'ab': 'c' }));
+        });
+    });
+
+    describe('planDependencyLayer', () => {
+        let uploadDir: string;
+        let backendDir: string;
+
+        function validated(backend: CARSConfigInfo['backend'] = {}) {
+            return validatedDeployment(uploadDir, backend);
+        }
+
+        beforeEach(() => {
+            uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cars-build-cache-'));
+            backendDir = path.join(uploadDir, 'backend');
+        });
+        afterEach(() => {
+            fs.removeSync(uploadDir);
+        });
+
+        it('names the image after the cache key of the files it installs', () => {
+            const plan = planDependencyLayer(testProject, backendDir, validated(), '{"lockfileVersion":3}');
+            expect(plan.files['package-lock.json']).toBe('{"lockfileVersion":3}');
+            expect(plan.cacheKey).toBe(dependencyCacheKey(plan.files));
+            expect(plan.image).toMatch(new RegExp(`/cars-project-${testProject.project_uuid}/backend-deps:${plan.cacheKey.slice(0, 32)}$`));
+        });
+
+        it('gives a different key for a different lockfile or different build argument values', () => {
+            const key = planDependencyLayer(testProject, backendDir, validated(), '{"lockfileVersion":3}').cacheKey;
+            expect(planDependencyLayer(testProject, backendDir, validated(), '{"lockfileVersion":2}').cacheKey).not.toBe(key);
+            const withArgs = planDependencyLayer(testProject, backendDir, validated({ buildArgs: { NPM_CONFIG_REGISTRY: 'https://a.example' } }), '{"lockfileVersion":3}');
+            const otherArgs = planDependencyLayer(testProject, backendDir, validated({ buildArgs: { NPM_CONFIG_REGISTRY: 'https://b.example' } }), '{"lockfileVersion":3}');
+            expect(withArgs.cacheKey).not.toBe(key);
+            expect(otherArgs.cacheKey).not.toBe(withArgs.cacheKey);
+            expect(withArgs.buildArgs).toEqual({ NPM_CONFIG_REGISTRY: 'https://a.example' });
+        });
+    });
+});
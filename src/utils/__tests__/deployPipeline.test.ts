@@ -0,0 +1,415 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type { Knex as KnexInstance } from 'knex';
+import { runAbortJob, runDeploymentJob, runPromotionJob } from '../deployPipeline';
+import { cancelDeploymentJob, enqueueDeploymentJob, startDeploymentWorker } from '../deployJobs';
+import { recordingImageBuilder, setImageBuilder, type RecordingImageBuilder } from '../imageBuilder';
+import { liveRelease } from '../releaseStrategy';
+import { encryptValue } from '../encryption';
+import { fundKey } from '../wallet';
+import { LOCKED_OVERLAY_EXPRESS, lockfileFor, testDatabase } from './fixtures';
+
+// Everything outside the node is replaced: the wallet services, the smoke test requests,
+// and the tar, helm and kubectl commands the pipeline shells out to
+jest.mock('../../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../wallet', () => ({
+    findBalanceForKey: jest.fn(async () => 0),
+    fundKey: jest.fn(async () => true)
+}));
+jest.mock('../smokeTests', () => ({
+    ...jest.requireActual('../smokeTests'),
+    runSmokeTests: jest.fn(async () => ({ status: 'passed', results: [] }))
+}));
+jest.mock('child_process', () => ({
+    ...jest.requireActual('child_process'),
+    spawn: jest.fn((command: string, args: unknown) => mockCommand(command, args))
+}));
+
+const mockCommands: string[] = [];
+let mockArtifact: Record<string, string> = {};
+// What `helm status` reports (null: not installed), and the commands that run until they are killed
+let mockHelmStatus: { version: number, info: { status: string } } | null = null;
+let mockHangOn: RegExp | null = null;
+const mockRunning = new Map<number, EventEmitter>();
+let mockNextPid = 1000;
+// Values and Ingress of each chart `helm upgrade` installed
+const mockCharts: { values: any, ingress: string }[] = [];
+
+/**
+ * Stands in for a spawned process. `tar` writes the test artifact into its target directory,
+ * `helm status` reports mockHelmStatus, commands matching mockHangOn run until their process group
+ * is killed, and everything else succeeds.
+ */
+function mockCommand(command: string, args: unknown) {
+    const line = Array.isArray(args) ? [command, ...args].join(' ') : command;
+    mockCommands.push(line);
+    let code = 0;
+    let stdout = '';
+    const extract = line.match(/^tar -xzf \S+ -C (\S+)/);
+    if (extract) {
+        for (const [name, content] of Object.entries(mockArtifact)) {
+            fs.outputFileSync(path.join(extract[1], name), content);
+        }
+    } else if (line.startsWith('helm upgrade --install')) {
+        const helmDir = line.split(' ')[4];
+        mockCharts.push({
+            values: JSON.parse(fs.readFileSync(path.join(helmDir, 'values.yaml'), 'utf-8')),
+            ingress: fs.readFileSync(path.join(helmDir, 'templates', 'ingress.yaml'), 'utf-8')
+        });
+    } else if (line.startsWith('helm status')) {
+        code = mockHelmStatus ? 0 : 1;
+        stdout = JSON.stringify(mockHelmStatus);
+    }
+    const child: any = new EventEmitter();
+    child.pid = 0;
+    child.stdout = new EventEmitter();
+    child.stderr = new EventEmitter();
+    if (mockHangOn?.test(line)) {
+        child.pid = mockNextPid++;
+        mockRunning.set(child.pid, child);
+        return child;
+    }
+    setImmediate(() => {
+        if (code === 0 && stdout) child.stdout.emit('data', Buffer.from(stdout));
+        child.emit('close', code);
+    });
+    return child;
+}
+
+/**
+ * A project with a frontend and backend artifact (in mockArtifact) to deploy.
+ */
+async function createProject(db: KnexInstance) {
+    const projectUuid = crypto.randomBytes(16).toString('hex');
+    const [projectId] = await db('projects').insert({
+        project_uuid: projectUuid,
+        name: 'Pipeline test',
+        network: 'testnet',
+        private_key: encryptValue(crypto.randomBytes(32).toString('hex')),
+        admin_bearer_token: encryptValue(crypto.randomBytes(32).toString('hex')),
+        balance: 10000
+    });
+    mockArtifact = {
+        'deployment-info.json': JSON.stringify({
+            schema: 'bsv-app',
+            schemaVersion: '1.0',
+            topicManagers: {},
+            lookupServices: {},
+            backend: { buildArgs: { NODE_OPTIONS: '--max-old-space-size=1024' } },
+            configs: [{ name: 'CARS', provider: 'CARS', projectID: projectUuid, network: 'testnet', deploy: ['frontend', 'backend'] }]
+        }),
+        'backend/package.json': JSON.stringify({ dependencies: { 'left-pad': '^1.3.0' } }),
+        'backend/src/index.ts': 'export {}\n',
+        'frontend/index.html': '<html></html>\n'
+    };
+    return db('projects').where({ id: projectId }).first();
+}
+
+describe('runDeploymentJob', () => {
+    let db: KnexInstance;
+    let builder: RecordingImageBuilder;
+    let project: any;
+    let artifactPath: string;
+
+    beforeAll(async () => {
+        process.env.CARS_MASTER_KEY = crypto.randomBytes(32).toString('hex');
+        db = await testDatabase();
+        artifactPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cars-pipeline-')), 'artifact.tgz');
+        fs.writeFileSync(artifactPath, '');
+    });
+
+    afterAll(async () => {
+        await db.destroy();
+        fs.removeSync(path.dirname(artifactPath));
+    });
+
+    beforeEach(async () => {
+        mockCommands.length = 0;
+        mockCharts.length = 0;
+        mockHelmStatus = null;
+        builder = recordingImageBuilder({ exportFiles: lockfileFor() });
+        setImageBuilder(builder);
+        project = await createProject(db);
+    });
+
+    async function queueDeploy() {
+        const deploymentUuid = crypto.randomBytes(16).toString('hex');
+        const [deployId] = await db('deploys').insert({
+            deployment_uuid: deploymentUuid,
+            project_id: project.id,
+            creator_identity_key: '02'.padEnd(66, '0'),
+            file_path: artifactPath,
+            status: 'queued'
+        });
+        const [jobId] = await db('deployment_jobs').insert({ deploy_id: deployId, project_id: project.id, state: 'running', attempts: 1 });
+        return {
+            deploy: await db('deploys').where({ id: deployId }).first(),
+            job: await db('deployment_jobs').where({ id: jobId }).first()
+        };
+    }
+
+    async function queueJob(deploy: any, kind: string) {
+        const [jobId] = await db('deployment_jobs').insert({ deploy_id: deploy.id, project_id: project.id, kind, state: 'running', attempts: 1 });
+        return db('deployment_jobs').where({ id: jobId }).first();
+    }
+
+    async function run(job: any, runner = runDeploymentJob) {
+        const wallets: any = { mainnetWallet: {}, testnetWallet: {} };
+        try {
+            await runner(db, wallets, job);
+        } finally {
+            const deploy = await db('deploys').where({ id: job.deploy_id }).first();
+            fs.removeSync(path.join('/tmp', `build_${deploy.deployment_uuid}`));
+        }
+    }
+
+    it('builds, pushes and installs a frontend and backend', async () => {
+        const { deploy, job } = await queueDeploy();
+        await run(job);
+
+        const finished = await db('deploys').where({ id: deploy.id }).first();
+        expect(finished.status).toBe('succeeded');
+        expect(finished.lockfile_source).toBe('generated');
+        expect(JSON.parse(finished.resolved_dependencies)['@bsv/overlay-express']).toBe(LOCKED_OVERLAY_EXPRESS);
+        expect(finished.build_cache).toBe('miss');
+
+        // Locked in the build image, with the deploy's build arguments
+        const [lock] = builder.calls.filter(call => call.action === 'export');
+        expect(lock.dockerfile).toContain('npm install --package-lock-only');
+        expect(lock.dockerfile).toContain('ARG NODE_OPTIONS');
+        expect(lock.buildArgs).toEqual({ NODE_OPTIONS: '--max-old-space-size=1024' });
+
+        const built = builder.calls.filter(call => call.action === 'build').map(call => call.image);
+        const pushed = builder.calls.filter(call => call.action === 'push').map(call => call.image);
+        expect(built).toEqual(expect.arrayContaining([finished.frontend_image, finished.backend_image]));
+        expect(pushed).toEqual(expect.arrayContaining([finished.frontend_image, finished.backend_image]));
+        const dependencies = builder.calls.find(call => call.action === 'build' && call.image!.includes('/backend-deps:'));
+        expect(dependencies!.dockerfile).toContain('RUN npm ci');
+
+        expect(mockCommands.some(command => command.startsWith('tar -xzf'))).toBe(true);
+        expect(mockCommands.some(command => command.startsWith('helm upgrade --install'))).toBe(true);
+        expect(mockCommands.some(command => command.startsWith('kubectl rollout status'))).toBe(true);
+        expect(fundKey).toHaveBeenCalled();
+
+        const steps = await db('deployment_job_steps').where({ job_id: job.id }).orderBy('id');
+        expect(steps.every((step: any) => step.status === 'succeeded')).toBe(true);
+    });
+
+    it('reuses the cached dependency layer on the next deploy', async () => {
+        await run((await queueDeploy()).job);
+        const { deploy, job } = await queueDeploy();
+        await run(job);
+
+        const finished = await db('deploys').where({ id: deploy.id }).first();
+        expect(finished.status).toBe('succeeded');
+        expect(finished.build_cache).toBe('hit');
+        const dependencyBuilds = builder.calls.filter(call => call.action === 'build' && call.image!.includes('/backend-deps:'));
+        expect(dependencyBuilds).toHaveLength(1);
+    });
+
+    it('deploys a custom backend Dockerfile that does not expose the backend port, with a warning', async () => {
+        const deploymentInfo = JSON.parse(mockArtifact['deployment-info.json']);
+        mockArtifact['deployment-info.json'] = JSON.stringify({ ...deploymentInfo, backend: { dockerfile: 'Dockerfile' } });
+        mockArtifact['backend/Dockerfile'] = 'FROM node:22\nCMD ["node", "index.js"]\n';
+        const { deploy, job } = await queueDeploy();
+        await run(job);
+
+        expect((await db('deploys').where({ id: deploy.id }).first()).status).toBe('succeeded');
+        const logs = (await db('logs').where({ deploy_id: deploy.id })).map((log: any) => log.message);
+        expect(logs).toContain('Warning: backend/Dockerfile does not EXPOSE 8080 in its final stage. The backend must still listen on port 8080: CARS sends backend traffic and health checks (GET /health/live, /health/ready) there');
+    });
+
+    it('stages a blue/green deploy next to the live release, then promotes it', async () => {
+        await db('projects').where({ id: project.id }).update({ deploy_strategy: 'blue_green' });
+        project = await db('projects').where({ id: project.id }).first();
+        const first = await queueDeploy();
+        await run(first.job);
+        expect(await db('deploys').where({ id: first.deploy.id }).first()).toMatchObject({ status: 'succeeded', deploy_strategy: 'rolling', release_slot: 'blue' });
+
+        // The next release drops the frontend
+        const deploymentInfo = JSON.parse(mockArtifact['deployment-info.json']);
+        deploymentInfo.configs[0].deploy = ['backend'];
+        mockArtifact['deployment-info.json'] = JSON.stringify(deploymentInfo);
+        const { deploy, job } = await queueDeploy();
+        await run(job);
+
+        expect(await db('deploys').where({ id: deploy.id }).first()).toMatchObject({ status: 'awaiting_promotion', deploy_strategy: 'blue_green', release_slot: 'green' });
+        // The Service and Ingress keep routing what the live blue slot serves, frontend included
+        const staged = mockCharts[mockCharts.length - 1];
+        expect(staged.values).toMatchObject({ activeSlot: 'blue', canary: null, frontendImage: null, useMySQL: true });
+        expect(staged.values.slots.blue.frontendImage).toBeTruthy();
+        expect(staged.values.slots.green.frontendImage).toBeNull();
+        expect(staged.ingress).toContain('- host: {{ .Values.ingressHostFrontend }}');
+        expect((await liveRelease(db, project.id, null))!.deploy.id).toBe(first.deploy.id);
+
+        await run(await queueJob(deploy, 'promote'), runPromotionJob);
+
+        expect((await db('deploys').where({ id: deploy.id }).first()).status).toBe('succeeded');
+        const live = await liveRelease(db, project.id, null);
+        expect(live).toMatchObject({ slot: 'green', images: { frontendImage: null } });
+        expect(live!.deploy.id).toBe(deploy.id);
+        // Switched over to the green slot, then the blue slot is retired
+        const [switched, retired] = mockCharts.slice(-2);
+        expect(switched.values).toMatchObject({ activeSlot: 'green' });
+        expect(switched.ingress).not.toContain('ingressHostFrontend');
+        expect(retired.values).toMatchObject({ activeSlot: 'green', slots: { blue: null } });
+    });
+
+    it('aborts a staged deploy and keeps the live release serving', async () => {
+        await db('projects').where({ id: project.id }).update({ deploy_strategy: 'canary', canary_weight: 20 });
+        project = await db('projects').where({ id: project.id }).first();
+        const first = await queueDeploy();
+        await run(first.job);
+        const { deploy, job } = await queueDeploy();
+        await run(job);
+        expect(await db('deploys').where({ id: deploy.id }).first()).toMatchObject({ status: 'awaiting_promotion', release_slot: 'green' });
+        expect(mockCharts[mockCharts.length - 1].values).toMatchObject({ activeSlot: 'blue', canary: { slot: 'green', weight: 20 } });
+
+        await run(await queueJob(deploy, 'abort'), runAbortJob);
+
+        expect(await db('deploys').where({ id: deploy.id }).first()).toMatchObject({ status: 'cancelled', failure_reason: 'Aborted before promotion' });
+        expect(mockCharts[mockCharts.length - 1].values).toMatchObject({ activeSlot: 'blue', canary: null, slots: { green: null } });
+        const live = await liveRelease(db, project.id, null);
+        expect(live).toMatchObject({ slot: 'blue' });
+        expect(live!.deploy.id).toBe(first.deploy.id);
+    });
+
+    it('fails the deploy when the image builder fails', async () => {
+        const { deploy, job } = await queueDeploy();
+        builder.failNext(`${process.env.DOCKER_REGISTRY || 'cars-registry:5000'}/cars-project-${project.project_uuid}/frontend:${deploy.deployment_uuid}`, 'no space left on device');
+
+        await expect(run(job)).rejects.toThrow('no space left on device');
+        expect(mockCommands.some(command => command.startsWith('helm upgrade'))).toBe(false);
+    });
+});
+
+describe('cancelling a deployment job', () => {
+    let db: KnexInstance;
+    let project: any;
+    let artifactDir: string;
+    let stopWorker: (() => void) | undefined;
+    let killSpy: jest.SpyInstance;
+
+    beforeAll(async () => {
+        process.env.CARS_MASTER_KEY = crypto.randomBytes(32).toString('hex');
+        db = await testDatabase();
+        artifactDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cars-cancel-'));
+    });
+
+    afterAll(async () => {
+        await db.destroy();
+        fs.removeSync(artifactDir);
+    });
+
+    beforeEach(async () => {
+        mockCommands.length = 0;
+        mockHelmStatus = null;
+        setImageBuilder(recordingImageBuilder({ exportFiles: lockfileFor() }));
+        project = await createProject(db);
+        // Killing a process group ends the mock command running in it
+        killSpy = jest.spyOn(process, 'kill').mockImplementation((pid: number) => {
+            const child = mockRunning.get(-pid);
+            if (child) {
+                mockRunning.delete(-pid);
+                setImmediate(() => child.emit('close', null));
+            }
+            return true;
+        });
+    });
+
+    afterEach(() => {
+        stopWorker?.();
+        stopWorker = undefined;
+        mockHangOn = null;
+        killSpy.mockRestore();
+    });
+
+    async function waitFor(condition: () => boolean | Promise<boolean>) {
+        for (let waited = 0; !(await condition()); waited += 20) {
+            if (waited > 10000) throw new Error('Timed out waiting for the deployment worker');
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+    }
+
+    /**
+     * Queue a deploy, let the worker run it until it starts a command matching `hangOn`, then cancel it
+     * and wait for the worker to finish with it.
+     */
+    async function cancelDuring(hangOn: RegExp, beforeCancel: () => void = () => {}) {
+        const deploymentUuid = crypto.randomBytes(16).toString('hex');
+        const filePath = path.join(artifactDir, `${deploymentUuid}.tgz`);
+        fs.writeFileSync(filePath, '');
+        const [deployId] = await db('deploys').insert({
+            deployment_uuid: deploymentUuid,
+            project_id: project.id,
+            creator_identity_key: '02'.padEnd(66, '0'),
+            file_path: filePath
+        });
+        const deploy = await db('deploys').where({ id: deployId }).first();
+        const jobId = await enqueueDeploymentJob(db, deploy);
+
+        mockHangOn = hangOn;
+        stopWorker = startDeploymentWorker(db, {} as any, {} as any);
+        await waitFor(() => mockRunning.size > 0);
+        expect(await db('project_deploy_locks').where({ project_id: project.id }).first()).toMatchObject({ job_id: jobId });
+        beforeCancel();
+
+        expect(await cancelDeploymentJob(db, deploy, 'admin-key')).toBe(true);
+        await waitFor(async () => !(await db('project_deploy_locks').where({ project_id: project.id }).first()));
+
+        return {
+            deploy: await db('deploys').where({ id: deployId }).first(),
+            job: await db('deployment_jobs').where({ id: jobId }).first(),
+            logs: (await db('logs').where({ deploy_id: deployId }).orderBy('id')).map((log: any) => log.message)
+        };
+    }
+
+    it('stops a build, records the deploy and job as cancelled and releases the project lock', async () => {
+        const recording = recordingImageBuilder({ exportFiles: lockfileFor() });
+        setImageBuilder({
+            ...recording,
+            async build(contextDir, image, run, options) {
+                await run(`buildah build -t ${image} ${contextDir}`);
+                return recording.build(contextDir, image, run, options);
+            }
+        });
+
+        const { deploy, job, logs } = await cancelDuring(/^buildah build/);
+
+        expect(deploy.status).toBe('cancelled');
+        expect(job).toMatchObject({ state: 'cancelled', cancelled_by: 'admin-key' });
+        expect(logs).toContain('Deployment cancelled by admin-key');
+        expect(mockCommands.some(command => command.startsWith('helm'))).toBe(false);
+        expect(fs.existsSync(deploy.file_path)).toBe(false);
+        expect(fs.existsSync(path.join('/tmp', `build_${deploy.deployment_uuid}`))).toBe(false);
+    });
+
+    it('rolls back a release that Helm left pending when the upgrade was cancelled', async () => {
+        mockHelmStatus = { version: 1, info: { status: 'deployed' } };
+
+        const { deploy, job, logs } = await cancelDuring(/^helm upgrade/, () => {
+            mockHelmStatus = { version: 2, info: { status: 'pending-upgrade' } };
+        });
+
+        expect(deploy.status).toBe('cancelled');
+        expect(job.state).toBe('cancelled');
+        const releaseName = mockCommands.find(command => command.startsWith('helm upgrade'))!.split(' ')[3];
+        expect(mockCommands).toContain(`helm rollback ${releaseName} 1 --namespace cars-project-${project.project_uuid} --wait`);
+        expect(logs).toContain(`Release ${releaseName} is at revision 2 (pending-upgrade) after cancellation`);
+        expect(logs).toContain(`Release ${releaseName} restored to revision 1`);
+    });
+
+    it('says how to recover a release that is still pending after it is restored', async () => {
+        const { job, logs } = await cancelDuring(/^helm upgrade/, () => {
+            mockHelmStatus = { version: 1, info: { status: 'pending-install' } };
+        });
+
+        expect(job.state).toBe('cancelled');
+        const releaseName = mockCommands.find(command => command.startsWith('helm upgrade'))!.split(' ')[3];
+        expect(mockCommands.some(command => command.startsWith(`helm uninstall ${releaseName}`))).toBe(true);
+        expect(logs.some(message => message.startsWith(`Release ${releaseName} is still pending-install`))).toBe(true);
+    });
+});
@@ -0,0 +1,148 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { BACKEND_PORT, backendBuildArgs, backendBuildWarnings, customBackendDockerfile, exposedPorts, validateDeploymentInfo } from '../deploymentFiles';
+
+import { carsConfig, testProject as project, writeArtifact as writeArtifactInto } from './fixtures';
+
+describe('validateDeploymentInfo', () => {
+    let uploadDir: string;
+
+    function writeArtifact(deploymentInfo: any, files: Record<string, string> = {}) {
+        writeArtifactInto(uploadDir, deploymentInfo, files);
+    }
+
+    beforeEach(() => {
+        uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cars-deployment-info-'));
+    });
+    afterEach(() => {
+        fs.removeSync(uploadDir);
+    });
+
+    it('returns the matching CARS config and deploy targets', () => {
+        writeArtifact({ schema: 'bsv-app', configs: [{ provider: 'LARS' }, carsConfig({ deploy: ['frontend', 'backend'] })] });
+        const { errors, validated } = validateDeploymentInfo(uploadDir, project);
+        expect(errors).toEqual([]);
+        expect(validated!.carsConfig.projectID).toBe(project.project_uuid);
+        expect(validated!.frontendEnabled).toBe(true);
+        expect(validated!.backendEnabled).toBe(true);
+        expect(validated!.enableContracts).toBe(false);
+    });
+
+    it('requires a readable deployment-info.json', () => {
+        expect(validateDeploymentInfo(uploadDir, project).errors).toEqual(['deployment-info.json not found in tarball.']);
+        writeArtifact('{ not json');
+        expect(validateDeploymentInfo(uploadDir, project).errors[0]).toMatch(/^deployment-info.json is not valid JSON/);
+    });
+
+    it('reports every problem with the schema and CARS config', () => {
+        writeArtifact({ schema: 'other', configs: [carsConfig({ network: 'mainnet', deploy: [] })] });
+        const { errors, validated } = validateDeploymentInfo(uploadDir, project);
+        expect(validated).toBeUndefined();
+        expect(errors).toEqual([
+            'Invalid schema in deployment-info.json',
+            'Network mismatch: Project is on testnet but deployment config specifies mainnet',
+            'No valid deploy targets found (must include "frontend" and/or "backend").'
+        ]);
+    });
+
+    it('requires a CARS config for this project', () => {
+        writeArtifact({ schema: 'bsv-app', configs: [carsConfig({ projectID: 'someone-else' })] });
+        expect(validateDeploymentInfo(uploadDir, project).errors).toEqual(['No matching CARS config or projectID in deployment-info.json']);
+    });
+
+    it('enables contract compilation for sCrypt only', () => {
+        writeArtifact({ schema: 'bsv-app', configs: [carsConfig()], contracts: { language: 'sCrypt' } });
+        expect(validateDeploymentInfo(uploadDir, project).validated!.enableContracts).toBe(true);
+        writeArtifact({ schema: 'bsv-app', configs: [carsConfig()], contracts: { language: 'Solidity' } });
+        expect(validateDeploymentInfo(uploadDir, project).errors).toEqual(['BSV Contract language not supported: Solidity']);
+    });
+
+    it('checks declared smoke tests', () => {
+        writeArtifact({ schema: 'bsv-app', configs: [carsConfig({ smokeTests: ['relative'] })] });
+        expect(validateDeploymentInfo(uploadDir, project).errors).toEqual(['smokeTests[0]: relative is not a valid URL']);
+    });
+
+    describe('backend section', () => {
+        function validateBackend(backend: any, files: Record<string, string> = {}) {
+            writeArtifact({ schema: 'bsv-app', configs: [carsConfig()], backend }, files);
+            return validateDeploymentInfo(uploadDir, project);
+        }
+
+        it('accepts a pinned overlay-express version, a base image and build arguments', () => {
+            const { errors, validated } = validateBackend({
+                overlayExpressVersion: '2.2.0',
+                baseImage: 'docker.io/node:20-bookworm',
+                buildArgs: { NPM_CONFIG_LOGLEVEL: 'warn' }
+            });
+            expect(errors).toEqual([]);
+            expect(customBackendDockerfile(validated!)).toBeNull();
+            expect(backendBuildArgs(validated!)).toEqual({ NPM_CONFIG_LOGLEVEL: 'warn' });
+        });
+
+        it('accepts a Dockerfile inside the backend directory that exposes the backend port', () => {
+            const { errors, validated } = validateBackend({ dockerfile: './docker/Dockerfile' }, {
+                'backend/docker/Dockerfile': `FROM node:22\nEXPOSE ${BACKEND_PORT}\nCMD ["node", "index.js"]\n`
+            });
+            expect(errors).toEqual([]);
+            expect(customBackendDockerfile(validated!)).toBe('docker/Dockerfile');
+            expect(backendBuildWarnings(uploadDir, validated!)).toEqual([]);
+        });
+
+        it('only warns about a Dockerfile that does not expose the backend port', () => {
+            const { errors, validated } = validateBackend({ dockerfile: 'Dockerfile' }, { 'backend/Dockerfile': 'FROM node:22\nEXPOSE 3000\n' });
+            expect(errors).toEqual([]);
+            expect(backendBuildWarnings(uploadDir, validated!)).toEqual([
+                `backend/Dockerfile does not EXPOSE ${BACKEND_PORT} in its final stage. The backend must still listen on port ${BACKEND_PORT}: CARS sends backend traffic and health checks (GET /health/live, /health/ready) there`
+            ]);
+        });
+
+        it('rejects malformed settings', () => {
+            expect(validateBackend({
+                overlayExpressVersion: '^2.2.0',
+                baseImage: 'node 22; rm -rf /',
+                buildArgs: { 'bad-name': 'x', GOOD: 42 }
+            }).errors).toEqual([
+                'backend.overlayExpressVersion in deployment-info.json must be an exact version such as "2.2.0"',
+                'backend.baseImage in deployment-info.json must be an image reference such as "docker.io/node:20-bookworm"',
+                'Invalid build argument name: bad-name',
+                'Build argument GOOD must be a string of at most 4096 characters'
+            ]);
+            expect(validateBackend('Dockerfile').errors).toEqual(['backend in deployment-info.json must be an object']);
+            expect(validateBackend({ buildArgs: ['A=1'] }).errors).toEqual(['backend.buildArgs in deployment-info.json must be an object of names to string values']);
+            const tooMany = Object.fromEntries(Array.from({ length: 33 }, (_, i) => [`ARG_${i}`, 'x']));
+            expect(validateBackend({ buildArgs: tooMany }).errors).toEqual(['backend.buildArgs can have at most 32 entries']);
+        });
+
+        it('rejects Dockerfiles outside the backend directory or missing', () => {
+            expect(validateBackend({ dockerfile: '../Dockerfile' }).errors).toEqual(['backend.dockerfile in deployment-info.json must be a path inside the backend directory']);
+            expect(validateBackend({ dockerfile: '/etc/Dockerfile' }).errors).toEqual(['backend.dockerfile in deployment-info.json must be a path inside the backend directory']);
+            expect(validateBackend({ dockerfile: 'Dockerfile' }).errors).toEqual(['backend.dockerfile not found: backend/Dockerfile']);
+        });
+
+        it('does not combine a Dockerfile with settings for the generated image', () => {
+            expect(validateBackend({ dockerfile: 'Dockerfile', baseImage: 'docker.io/node:20' }, { 'backend/Dockerfile': `FROM node:22\nEXPOSE ${BACKEND_PORT}\n` }).errors)
+                .toEqual(['backend.dockerfile replaces the generated OverlayExpress image, so it cannot be combined with backend.baseImage or backend.overlayExpressVersion']);
+        });
+    });
+});
+
+describe('exposedPorts', () => {
+    it('reads the EXPOSE instructions of the final stage only', () => {
+        expect(exposedPorts([
+            'FROM node:22 AS build',
+            'EXPOSE 3000',
+            'RUN npm run build',
+            '',
+            'from node:22-alpine',
+            '# EXPOSE 9999',
+            'expose 8080/tcp 9090',
+            'EXPOSE \\',
+            '  7070'
+        ].join('\n'))).toEqual([8080, 9090, 7070]);
+    });
+
+    it('is empty when the final stage exposes nothing', () => {
+        expect(exposedPorts('FROM node:22\nEXPOSE 8080\nFROM node:22-alpine\nCMD ["node"]')).toEqual([]);
+    });
+});
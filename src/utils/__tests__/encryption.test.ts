@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import path from 'path';
+import { decryptValue, encryptValue, isEncrypted, masterKeyId, parseMasterKey, revealValue, rewrapValue } from '../encryption';
+
+describe('encryption', () => {
+    const key = crypto.randomBytes(32);
+    const otherKey = crypto.randomBytes(32);
+
+    describe('parseMasterKey', () => {
+        it('accepts 64 hex characters or base64 of 32 bytes', () => {
+            expect(parseMasterKey(key.toString('hex'))).toEqual(key);
+            expect(parseMasterKey(` ${key.toString('base64')}\n`)).toEqual(key);
+        });
+
+        it('rejects keys of any other length', () => {
+            expect(() => parseMasterKey('abcd')).toThrow('Master key must be 32 bytes');
+            expect(() => parseMasterKey(crypto.randomBytes(16).toString('base64'))).toThrow('Master key must be 32 bytes');
+        });
+    });
+
+    describe('getMasterKey', () => {
+        it('is never derived from the node wallet key', () => {
+            const { CARS_MASTER_KEY, MAINNET_PRIVATE_KEY } = process.env;
+            delete process.env.CARS_MASTER_KEY;
+            process.env.MAINNET_PRIVATE_KEY = crypto.randomBytes(32).toString('hex');
+            try {
+                jest.isolateModules(() => {
+                    const { getMasterKey } = require('../encryption');
+                    expect(() => getMasterKey()).toThrow('CARS_MASTER_KEY is not configured');
+                });
+            } finally {
+                if (CARS_MASTER_KEY !== undefined) process.env.CARS_MASTER_KEY = CARS_MASTER_KEY;
+                if (MAINNET_PRIVATE_KEY === undefined) delete process.env.MAINNET_PRIVATE_KEY;
+                else process.env.MAINNET_PRIVATE_KEY = MAINNET_PRIVATE_KEY;
+            }
+        });
+    });
+
+    describe('enc:v1 values', () => {
+        it('are made of the prefix, the master key id, the wrapped data key and the sealed value', () => {
+            const sealed = encryptValue('secret', key);
+            const parts = sealed.split(':');
+            expect(parts).toHaveLength(5);
+            expect(parts.slice(0, 3)).toEqual(['enc', 'v1', masterKeyId(key)]);
+            // iv (12 bytes) + auth tag (16 bytes) + a 32 byte data key
+            expect(Buffer.from(parts[3], 'base64')).toHaveLength(12 + 16 + 32);
+            expect(Buffer.from(parts[4], 'base64')).toHaveLength(12 + 16 + Buffer.byteLength('secret'));
+            expect(isEncrypted(sealed)).toBe(true);
+        });
+
+        it('round trip, with a fresh data key each time', () => {
+            const first = encryptValue('päss:word', key);
+            const second = encryptValue('päss:word', key);
+            expect(first).not.toBe(second);
+            expect(decryptValue(first, key)).toBe('päss:word');
+            expect(decryptValue(second, key)).toBe('päss:word');
+        });
+
+        it('cannot be opened with another master key', () => {
+            expect(() => decryptValue(encryptValue('secret', key), otherKey)).toThrow(`different master key (${masterKeyId(key)})`);
+        });
+
+        it('fail to open when tampered with', () => {
+            const parts = encryptValue('secret', key).split(':');
+            const body = Buffer.from(parts[4], 'base64');
+            body[body.length - 1] ^= 1;
+            parts[4] = body.toString('base64');
+            expect(() => decryptValue(parts.join(':'), key)).toThrow();
+        });
+
+        it('must be complete', () => {
+            expect(() => decryptValue(`enc:v1:${masterKeyId(key)}:only-one-part`, key)).toThrow('Malformed encrypted value');
+            expect(() => decryptValue('plaintext', key)).toThrow('Value is not encrypted');
+        });
+    });
+
+    describe('rewrapValue', () => {
+        it('moves the data key to the new master key and keeps the sealed value', () => {
+            const sealed = encryptValue('secret', key);
+            const rewrapped = rewrapValue(sealed, key, otherKey);
+            expect(rewrapped.split(':')[2]).toBe(masterKeyId(otherKey));
+            expect(rewrapped.split(':')[4]).toBe(sealed.split(':')[4]);
+            expect(decryptValue(rewrapped, otherKey)).toBe('secret');
+        });
+
+        it('leaves values already under the new key alone, so a rotation can be re-run', () => {
+            const sealed = encryptValue('secret', otherKey);
+            expect(rewrapValue(sealed, key, otherKey)).toBe(sealed);
+        });
+
+        it('refuses values sealed under neither key', () => {
+            const sealed = encryptValue('secret', crypto.randomBytes(32));
+            expect(() => rewrapValue(sealed, key, otherKey)).toThrow('unknown master key');
+        });
+    });
+
+    describe('the project keys migration', () => {
+        const encryptMigration = '2026-10-19-014-encrypt-project-keys.ts';
+
+        it('changes nothing without CARS_MASTER_KEY, and encrypts the existing keys once it is set', async () => {
+            const previous = process.env.CARS_MASTER_KEY;
+            delete process.env.CARS_MASTER_KEY;
+            try {
+                // A fresh module registry, so no master key is cached from another test
+                await jest.isolateModulesAsync(async () => {
+                    const db = require('knex').knex({
+                        client: 'better-sqlite3',
+                        connection: { filename: ':memory:' },
+                        useNullAsDefault: true,
+                        migrations: { directory: path.join(__dirname, '../../migrations'), loadExtensions: ['.ts'] }
+                    });
+                    try {
+                        const pendingMigration = async () => (await db.migrate.list())[1][0]?.file;
+                        while (await pendingMigration() !== encryptMigration) {
+                            await db.migrate.up();
+                        }
+                        const privateKey = crypto.randomBytes(32).toString('hex');
+                        const adminToken = crypto.randomBytes(32).toString('hex');
+                        await db('projects').insert({ project_uuid: 'a'.repeat(32), name: 'Existing', network: 'mainnet', private_key: privateKey, admin_bearer_token: adminToken });
+
+                        await expect(db.migrate.up()).rejects.toThrow('openssl rand -hex 32');
+                        expect(await pendingMigration()).toBe(encryptMigration);
+                        expect(await db('projects').first()).toMatchObject({ private_key: privateKey, admin_bearer_token: adminToken });
+
+                        process.env.CARS_MASTER_KEY = key.toString('hex');
+                        await db.migrate.up();
+                        const project = await db('projects').first();
+                        expect(isEncrypted(project.private_key)).toBe(true);
+                        expect(decryptValue(project.private_key, key)).toBe(privateKey);
+                        expect(decryptValue(project.admin_bearer_token, key)).toBe(adminToken);
+                    } finally {
+                        await db.destroy();
+                    }
+                });
+            } finally {
+                if (previous === undefined) delete process.env.CARS_MASTER_KEY;
+                else process.env.CARS_MASTER_KEY = previous;
+            }
+        });
+    });
+
+    describe('revealValue', () => {
+        const previous = process.env.CARS_MASTER_KEY;
+        beforeAll(() => {
+            process.env.CARS_MASTER_KEY = key.toString('hex');
+        });
+        afterAll(() => {
+            if (previous === undefined) delete process.env.CARS_MASTER_KEY;
+            else process.env.CARS_MASTER_KEY = previous;
+        });
+
+        it('decrypts sealed values and passes plaintext and missing values through', () => {
+            expect(revealValue(encryptValue('secret'))).toBe('secret');
+            expect(revealValue('legacy plaintext')).toBe('legacy plaintext');
+            expect(revealValue(null)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import fs from 'fs-extra';
+import path from 'path';
+import Knex, { type Knex as KnexInstance } from 'knex';
+import type { CARSConfig, CARSConfigInfo } from '../../utils';
+import { validateDeploymentInfo, type ValidatedDeployment } from '../deploymentFiles';
+import type { RecordedImageBuild } from '../imageBuilder';
+
+/**
+ * Shared test fixtures: artifacts on disk, deployments validated from them, a stand-in for
+ * npm's locking and a migrated in-memory database.
+ */
+
+export const testProject = { project_uuid: 'abc123', network: 'testnet' };
+
+// Version the lockfileFor stand-in locks @bsv/overlay-express at unless told otherwise
+export const LOCKED_OVERLAY_EXPRESS = '2.2.0';
+
+export function carsConfig(overrides: Partial<CARSConfig> = {}): CARSConfig {
+    return { provider: 'CARS', projectID: testProject.project_uuid, network: 'testnet', deploy: ['backend'], ...overrides };
+}
+
+/**
+ * Write deployment-info.json (an object, or raw text) and any other `files` into `uploadDir`.
+ */
+export function writeArtifact(uploadDir: string, deploymentInfo: Partial<CARSConfigInfo> | string, files: Record<string, string> = {}) {
+    fs.outputFileSync(path.join(uploadDir, 'deployment-info.json'), typeof deploymentInfo === 'string' ? deploymentInfo : JSON.stringify(deploymentInfo));
+    for (const [name, content] of Object.entries(files)) {
+        fs.outputFileSync(path.join(uploadDir, name), content);
+    }
+}
+
+/**
+ * A backend deployment of testProject, validated by validateDeploymentInfo from an artifact written
+ * into `uploadDir` with the given backend settings. Its backend/package.json depends on left-pad.
+ */
+export function validatedDeployment(uploadDir: string, backend: CARSConfigInfo['backend'] = {}): ValidatedDeployment {
+    writeArtifact(uploadDir, { schema: 'bsv-app', schemaVersion: '1.0', configs: [carsConfig()], backend }, {
+        'backend/package.json': JSON.stringify({ dependencies: { 'left-pad': '^1.3.0' } })
+    });
+    const { errors, validated } = validateDeploymentInfo(uploadDir, testProject);
+    if (!validated) {
+        throw new Error(`Fixture deployment is invalid: ${errors.join('; ')}`);
+    }
+    return validated;
+}
+
+/**
+ * Stands in for npm in a recording builder's lock export: locks every dependency of the
+ * package.json in the build context at 1.0.0, and @bsv/overlay-express at `overlayExpress`.
+ */
+export function lockfileFor(overlayExpress = LOCKED_OVERLAY_EXPRESS) {
+    return (call: RecordedImageBuild): Record<string, string> => {
+        const packageJson = JSON.parse(fs.readFileSync(path.join(call.contextDir!, 'package.json'), 'utf-8'));
+        const packages: Record<string, { version: string }> = {};
+        for (const name of Object.keys(packageJson.dependencies)) {
+            packages[`node_modules/${name}`] = { version: name === '@bsv/overlay-express' ? overlayExpress : '1.0.0' };
+        }
+        return { 'package-lock.json': JSON.stringify({ lockfileVersion: 3, packages }) };
+    };
+}
+
+/**
+ * An in-memory SQLite database with every migration applied. Destroy it when done.
+ */
+export async function testDatabase(): Promise<KnexInstance> {
+    const db = Knex({
+        client: 'better-sqlite3',
+        connection: { filename: ':memory:' },
+        useNullAsDefault: true,
+        migrations: { directory: path.join(__dirname, '../../migrations'), loadExtensions: ['.ts'] }
+    });
+    await db.migrate.latest();
+    return db;
+}
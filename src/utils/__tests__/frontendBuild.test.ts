@@ -0,0 +1,89 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { FRONTEND_DOCKERFILE, FRONTEND_LANGUAGES, planFrontendBuild } from '../frontendBuild';
+
+describe('planFrontendBuild', () => {
+    let uploadDir: string;
+
+    function writeSource(files: Record<string, string>) {
+        for (const [name, content] of Object.entries(files)) {
+            fs.outputFileSync(path.join(uploadDir, name), content);
+        }
+    }
+
+    function packageJson(dependencies: Record<string, string>, scripts: Record<string, string> = { build: 'build' }) {
+        return JSON.stringify({ scripts, devDependencies: dependencies });
+    }
+
+    beforeEach(() => {
+        uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cars-frontend-build-'));
+    });
+    afterEach(() => {
+        fs.removeSync(uploadDir);
+    });
+
+    it('requires a known language and a source directory inside the artifact', () => {
+        expect(planFrontendBuild(uploadDir, { language: 'elm', sourceDirectory: '../outside' }).errors).toEqual([
+            `frontend.language must be one of: ${FRONTEND_LANGUAGES.join(', ')} to build the frontend on the server`,
+            'frontend.sourceDirectory must be a path inside the artifact to build the frontend on the server'
+        ]);
+        expect(planFrontendBuild(uploadDir, { language: 'vite', sourceDirectory: '/src' }).errors)
+            .toEqual(['frontend.sourceDirectory must be a path inside the artifact to build the frontend on the server']);
+        expect(planFrontendBuild(uploadDir, { language: 'vite', sourceDirectory: 'app; rm -rf /' }).errors)
+            .toEqual(['frontend.sourceDirectory must be a path inside the artifact to build the frontend on the server']);
+    });
+
+    it('requires the output directory to be inside the source directory', () => {
+        for (const outputDirectory of ['.', '../dist', '/dist']) {
+            expect(planFrontendBuild(uploadDir, { language: 'vite', sourceDirectory: 'app', outputDirectory }).errors)
+                .toEqual(['frontend.outputDirectory must be a directory inside frontend.sourceDirectory']);
+        }
+    });
+
+    it('requires the source directory and a package.json with a build script', () => {
+        const frontend = { language: 'react', sourceDirectory: 'app' };
+        expect(planFrontendBuild(uploadDir, frontend).errors).toEqual(['Frontend source directory not found: app']);
+        writeSource({ 'app/src/index.js': '' });
+        expect(planFrontendBuild(uploadDir, frontend).errors).toEqual(['app/package.json not found: a react frontend is built with its build script']);
+        writeSource({ 'app/package.json': '{' });
+        expect(planFrontendBuild(uploadDir, frontend).errors[0]).toMatch(/^app\/package.json is not valid JSON/);
+        writeSource({ 'app/package.json': packageJson({ 'react-scripts': '5.0.1' }, { start: 'react-scripts start' }) });
+        expect(planFrontendBuild(uploadDir, frontend).errors).toEqual(['app/package.json has no "build" script']);
+    });
+
+    it('builds a vite project with yarn and serves its dist directory', () => {
+        writeSource({ 'app/package.json': packageJson({ vite: '^5.0.0' }), 'app/yarn.lock': '' });
+        const { errors, plan } = planFrontendBuild(uploadDir, { language: 'vite', sourceDirectory: './app/' });
+        expect(errors).toEqual([]);
+        expect(plan).toMatchObject({ framework: 'vite', sourceDirectory: 'app', outputDirectory: 'dist', packageManager: 'yarn' });
+        const dockerfile = plan!.files[FRONTEND_DOCKERFILE];
+        expect(dockerfile).toContain('RUN corepack enable && yarn install --frozen-lockfile');
+        expect(dockerfile).toContain('RUN yarn build');
+        expect(dockerfile).toContain('COPY --from=build /src/dist /usr/share/nginx/html');
+        expect(dockerfile).toMatch(/EXPOSE 80$/);
+    });
+
+    it('builds a create-react-app project with npm ci into a custom output directory', () => {
+        writeSource({ 'app/package.json': packageJson({ 'react-scripts': '5.0.1' }), 'app/package-lock.json': '{}' });
+        const { plan } = planFrontendBuild(uploadDir, { language: 'react', sourceDirectory: 'app', outputDirectory: 'public/build' });
+        expect(plan).toMatchObject({ framework: 'create-react-app', outputDirectory: 'public/build', packageManager: 'npm' });
+        const dockerfile = plan!.files[FRONTEND_DOCKERFILE];
+        expect(dockerfile).toContain('RUN npm ci');
+        expect(dockerfile).toContain('RUN npm run build');
+        expect(dockerfile).toContain('test -d \'public/build\'');
+        expect(dockerfile).toContain('COPY --from=build /src/public/build /usr/share/nginx/html');
+    });
+
+    it('serves html and static sources as they are', () => {
+        writeSource({ 'site/index.html': '<html></html>' });
+        const { errors, plan } = planFrontendBuild(uploadDir, { language: 'html', sourceDirectory: 'site' });
+        expect(errors).toEqual([]);
+        expect(plan).toMatchObject({ framework: 'static', outputDirectory: '.', packageManager: null });
+        const dockerfile = plan!.files[FRONTEND_DOCKERFILE];
+        expect(dockerfile).not.toContain('AS build');
+        expect(dockerfile).toContain('COPY . /usr/share/nginx/html');
+        expect(dockerfile).toContain(`rm -f /usr/share/nginx/html/${FRONTEND_DOCKERFILE}`);
+        expect(Object.keys(plan!.files)).toEqual([FRONTEND_DOCKERFILE, '.cars-nginx.conf']);
+    });
+});
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type { Knex as KnexInstance } from 'knex';
+import { projectNamespace, teardownExpiredPreviews } from '../previews';
+import { testDatabase } from './fixtures';
+
+// helm and kubectl are replaced: commands matching mockFailOn exit with an error, the rest succeed
+jest.mock('../../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('child_process', () => ({
+    ...jest.requireActual('child_process'),
+    spawn: jest.fn((command: string) => mockCommand(command))
+}));
+
+const mockCommands: string[] = [];
+let mockFailOn: RegExp | null = null;
+
+function mockCommand(command: string) {
+    mockCommands.push(command);
+    const child: any = new EventEmitter();
+    child.stdout = new EventEmitter();
+    child.stderr = new EventEmitter();
+    setImmediate(() => child.emit('close', mockFailOn?.test(command) ? 1 : 0));
+    return child;
+}
+
+describe('teardownExpiredPreviews', () => {
+    let db: KnexInstance;
+    let project: any;
+
+    beforeAll(async () => {
+        process.env.CARS_MASTER_KEY = crypto.randomBytes(32).toString('hex');
+        db = await testDatabase();
+    });
+
+    afterAll(async () => {
+        await db.destroy();
+    });
+
+    beforeEach(async () => {
+        mockCommands.length = 0;
+        mockFailOn = null;
+        const [projectId] = await db('projects').insert({
+            project_uuid: crypto.randomBytes(16).toString('hex'),
+            name: 'Preview test',
+            network: 'testnet',
+            private_key: 'unused'
+        });
+        project = await db('projects').where({ id: projectId }).first();
+    });
+
+    async function insertPreview(name: string, expiresInMs: number) {
+        const [id] = await db('project_previews').insert({ project_id: project.id, name, expires_at: new Date(Date.now() + expiresInMs) });
+        return db('project_previews').where({ id }).first();
+    }
+
+    const deletedAt = async (preview: any) => (await db('project_previews').where({ id: preview.id }).first()).deleted_at;
+
+    it('tears down the previews whose TTL has run out and leaves the rest', async () => {
+        const expired = await insertPreview('expired', -60000);
+        const active = await insertPreview('active', 3600000);
+
+        await teardownExpiredPreviews(db);
+
+        const namespace = projectNamespace(project, 'expired');
+        expect(mockCommands).toEqual([
+            `helm uninstall cars-project-${project.project_uuid.substr(0, 24)} -n ${namespace}`,
+            `kubectl delete namespace ${namespace} --wait=false`
+        ]);
+        expect(await deletedAt(expired)).not.toBeNull();
+        expect(await deletedAt(active)).toBeNull();
+        expect((await db('logs').where({ project_id: project.id }).first()).message).toBe('Preview environment expired torn down (TTL expired)');
+    });
+
+    it('leaves an expired preview with a deploy in progress for the next run', async () => {
+        const busy = await insertPreview('busy', -60000);
+        const [deployId] = await db('deploys').insert({
+            deployment_uuid: crypto.randomBytes(16).toString('hex'),
+            project_id: project.id,
+            preview_id: busy.id,
+            creator_identity_key: '02'.padEnd(66, '0'),
+            status: 'building_backend'
+        });
+        const [jobId] = await db('deployment_jobs').insert({ deploy_id: deployId, project_id: project.id, kind: 'deploy', state: 'running' });
+
+        await teardownExpiredPreviews(db);
+        expect(mockCommands).toHaveLength(0);
+        expect(await deletedAt(busy)).toBeNull();
+
+        await db('deployment_jobs').where({ id: jobId }).update({ state: 'succeeded' });
+        await teardownExpiredPreviews(db);
+        expect(await deletedAt(busy)).not.toBeNull();
+    });
+
+    it('carries on when the release or namespace of a preview is already gone', async () => {
+        const first = await insertPreview('first', -120000);
+        const second = await insertPreview('second', -60000);
+        mockFailOn = /-first\b/;
+
+        await teardownExpiredPreviews(db);
+
+        expect(mockCommands).toHaveLength(4);
+        expect(await deletedAt(first)).not.toBeNull();
+        expect(await deletedAt(second)).not.toBeNull();
+    });
+});
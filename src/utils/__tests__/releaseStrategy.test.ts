@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import type { Knex as KnexInstance } from 'knex';
+import { liveRelease, planRelease, singleSlotLayout, stagedLayout, supersedeCandidates, type SlotImages } from '../releaseStrategy';
+import { testDatabase } from './fixtures';
+
+describe('releaseStrategy', () => {
+    const liveImages: SlotImages = { backendImage: 'registry/backend:live', frontendImage: 'registry/frontend:live' };
+    const newImages: SlotImages = { backendImage: 'registry/backend:new', frontendImage: null };
+
+    describe('layouts', () => {
+        it('runs a single slot alone', () => {
+            expect(singleSlotLayout('green', newImages)).toEqual({ slots: { blue: null, green: newImages }, activeSlot: 'green', canary: null });
+        });
+
+        it('stages a candidate in the slot next to the live release', () => {
+            const live = { slot: 'blue' as const, images: liveImages };
+            expect(stagedLayout(live, newImages, 'live', null)).toEqual({ slots: { blue: liveImages, green: newImages }, activeSlot: 'blue', canary: null });
+            expect(stagedLayout(live, newImages, 'live', 25)).toEqual({ slots: { blue: liveImages, green: newImages }, activeSlot: 'blue', canary: { slot: 'green', weight: 25 } });
+            // Once traffic is switched there is nothing left to trial
+            expect(stagedLayout(live, newImages, 'candidate', 25)).toEqual({ slots: { blue: liveImages, green: newImages }, activeSlot: 'green', canary: null });
+        });
+    });
+
+    describe('with deploys', () => {
+        let db: KnexInstance;
+        let project: any;
+
+        beforeAll(async () => {
+            process.env.CARS_MASTER_KEY = crypto.randomBytes(32).toString('hex');
+            db = await testDatabase();
+        });
+
+        afterAll(async () => {
+            await db.destroy();
+        });
+
+        beforeEach(async () => {
+            const [projectId] = await db('projects').insert({
+                project_uuid: crypto.randomBytes(16).toString('hex'),
+                name: 'Release strategy test',
+                network: 'testnet',
+                private_key: 'unused',
+                canary_weight: 30
+            });
+            project = await db('projects').where({ id: projectId }).first();
+        });
+
+        async function insertDeploy(fields: Record<string, any> = {}) {
+            const [id] = await db('deploys').insert({
+                deployment_uuid: crypto.randomBytes(16).toString('hex'),
+                project_id: project.id,
+                creator_identity_key: '02'.padEnd(66, '0'),
+                status: 'queued',
+                ...fields
+            });
+            return db('deploys').where({ id }).first();
+        }
+
+        function succeededDeploy(slot: string, images: SlotImages, fields: Record<string, any> = {}) {
+            return insertDeploy({
+                status: 'succeeded',
+                status_updated_at: new Date(),
+                release_slot: slot,
+                helm_values: JSON.stringify(images),
+                ...fields
+            });
+        }
+
+        describe('liveRelease', () => {
+            it('is the last deploy to succeed, with its slot and images', async () => {
+                expect(await liveRelease(db, project.id, null)).toBeNull();
+                await succeededDeploy('blue', liveImages, { status_updated_at: new Date(Date.now() - 60000) });
+                const latest = await succeededDeploy('green', newImages);
+                await insertDeploy({ status: 'failed', status_updated_at: new Date(Date.now() + 60000), helm_values: JSON.stringify(liveImages) });
+
+                const live = await liveRelease(db, project.id, null);
+                expect(live).toMatchObject({ slot: 'green', images: newImages });
+                expect(live!.deploy.id).toBe(latest.id);
+                expect((await liveRelease(db, project.id, null, latest.id))!.images).toEqual(liveImages);
+            });
+
+            it('keeps each preview apart from the project', async () => {
+                const [previewId] = await db('project_previews').insert({ project_id: project.id, name: 'feature', expires_at: new Date(Date.now() + 3600000) });
+                await succeededDeploy('blue', newImages, { preview_id: previewId });
+                expect(await liveRelease(db, project.id, null)).toBeNull();
+                expect((await liveRelease(db, project.id, previewId))!.images).toEqual(newImages);
+            });
+        });
+
+        describe('planRelease', () => {
+            it('rolls into the blue slot when nothing is live, whatever the strategy', async () => {
+                const deploy = await insertDeploy();
+                const plan = await planRelease(db, project, deploy, newImages, 'canary');
+                expect(plan).toEqual({ strategy: 'rolling', slot: 'blue', layout: singleSlotLayout('blue', newImages) });
+                expect(await db('deploys').where({ id: deploy.id }).first()).toMatchObject({ deploy_strategy: 'rolling', release_slot: 'blue' });
+            });
+
+            it('rolls over the live slot', async () => {
+                await succeededDeploy('green', liveImages);
+                const plan = await planRelease(db, project, await insertDeploy(), newImages, 'rolling');
+                expect(plan).toEqual({ strategy: 'rolling', slot: 'green', layout: singleSlotLayout('green', newImages) });
+            });
+
+            it('stages blue/green and canary deploys in the idle slot, with the live slot still serving', async () => {
+                await succeededDeploy('blue', liveImages);
+
+                const blueGreen = await planRelease(db, project, await insertDeploy(), newImages, 'blue_green');
+                expect(blueGreen).toEqual({ strategy: 'blue_green', slot: 'green', layout: stagedLayout({ slot: 'blue', images: liveImages }, newImages, 'live', null) });
+
+                const canary = await insertDeploy();
+                expect((await planRelease(db, project, canary, newImages, 'canary')).layout)
+                    .toEqual({ slots: { blue: liveImages, green: newImages }, activeSlot: 'blue', canary: { slot: 'green', weight: 30 } });
+                expect(await db('deploys').where({ id: canary.id }).first()).toMatchObject({ deploy_strategy: 'canary', release_slot: 'green' });
+            });
+
+            it('always rolls previews', async () => {
+                const [previewId] = await db('project_previews').insert({ project_id: project.id, name: 'feature', expires_at: new Date(Date.now() + 3600000) });
+                await succeededDeploy('blue', liveImages, { preview_id: previewId });
+                const plan = await planRelease(db, project, await insertDeploy({ preview_id: previewId }), newImages, 'blue_green');
+                expect(plan).toEqual({ strategy: 'rolling', slot: 'blue', layout: singleSlotLayout('blue', newImages) });
+            });
+        });
+
+        describe('supersedeCandidates', () => {
+            it('cancels the project deploys still awaiting promotion, other than the given one', async () => {
+                const waiting = await insertDeploy({ status: 'awaiting_promotion', release_slot: 'green' });
+                const running = await insertDeploy({ status: 'building_backend' });
+                const replacement = await insertDeploy({ status: 'awaiting_promotion', release_slot: 'green' });
+
+                await supersedeCandidates(db, project.id, replacement);
+
+                expect(await db('deploys').where({ id: waiting.id }).first()).toMatchObject({
+                    status: 'cancelled',
+                    failure_reason: `Superseded by deployment ${replacement.deployment_uuid} before it was promoted`
+                });
+                expect((await db('logs').where({ deploy_id: waiting.id }).first()).message).toMatch(/^Superseded by deployment/);
+                expect((await db('deploys').where({ id: running.id }).first()).status).toBe('building_backend');
+                expect((await db('deploys').where({ id: replacement.id }).first()).status).toBe('awaiting_promotion');
+            });
+        });
+    });
+});
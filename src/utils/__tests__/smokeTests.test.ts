@@ -0,0 +1,82 @@
+import { MAX_DECLARED_SMOKE_TESTS, smokeTestTargets, validateSmokeTests } from '../smokeTests';
+
+describe('smokeTests', () => {
+    const project = { project_uuid: 'abc123', frontend_custom_domain: 'example.com', backend_custom_domain: null };
+    const previousDomain = process.env.PROJECT_DEPLOYMENT_DNS_NAME;
+
+    beforeAll(() => {
+        process.env.PROJECT_DEPLOYMENT_DNS_NAME = 'projects.test';
+    });
+    afterAll(() => {
+        if (previousDomain === undefined) delete process.env.PROJECT_DEPLOYMENT_DNS_NAME;
+        else process.env.PROJECT_DEPLOYMENT_DNS_NAME = previousDomain;
+    });
+
+    describe('validateSmokeTests', () => {
+        it('accepts no declared tests', () => {
+            expect(validateSmokeTests(undefined, project)).toEqual([]);
+            expect(validateSmokeTests([], project)).toEqual([]);
+        });
+
+        it('accepts paths, URLs on the project hosts and objects with an expected status', () => {
+            expect(validateSmokeTests([
+                '/lookup',
+                'https://backend.abc123.projects.test/health',
+                'https://www.example.com/',
+                { path: '/admin', expectStatus: 401 },
+                { url: 'http://frontend.abc123.projects.test/about' }
+            ], project)).toEqual([]);
+        });
+
+        it('rejects anything that is not a list, and lists that are too long', () => {
+            expect(validateSmokeTests('/lookup', project)).toEqual(['smokeTests must be a list']);
+            expect(validateSmokeTests(Array(MAX_DECLARED_SMOKE_TESTS + 1).fill('/'), project))
+                .toEqual([`smokeTests may list at most ${MAX_DECLARED_SMOKE_TESTS} entries`]);
+        });
+
+        it('only allows URLs on the project\'s own hosts', () => {
+            expect(validateSmokeTests(['https://backend.other.projects.test/'], project))
+                .toEqual(['smokeTests[0]: backend.other.projects.test is not one of this project\'s hosts']);
+            expect(validateSmokeTests(['ftp://example.com/'], project))
+                .toEqual(['smokeTests[0]: only http and https URLs can be tested']);
+            expect(validateSmokeTests(['not a url'], project))
+                .toEqual(['smokeTests[0]: not a url is not a valid URL']);
+        });
+
+        it('reports each malformed entry by index', () => {
+            expect(validateSmokeTests([
+                42,
+                { path: 'relative' },
+                {},
+                { path: '/', expectStatus: 999 }
+            ], project)).toEqual([
+                'smokeTests[0] must be a path, a URL or { path | url, expectStatus }',
+                'smokeTests[1]: path must start with /',
+                'smokeTests[2] must have a path or a url',
+                'smokeTests[3]: expectStatus must be an HTTP status code'
+            ]);
+        });
+    });
+
+    describe('smokeTestTargets', () => {
+        it('probes backend health and the frontend root, and resolves declared paths against the backend', () => {
+            const targets = smokeTestTargets({
+                backendImage: 'backend:1',
+                frontendImage: 'frontend:1',
+                ingressHostBackend: 'backend.abc123.projects.test',
+                ingressHostFrontend: 'frontend.abc123.projects.test'
+            }, ['/lookup', { url: 'https://example.com/', expectStatus: 301 }]);
+            expect(targets).toEqual([
+                { name: 'backend health', url: 'https://backend.abc123.projects.test/health/ready' },
+                { name: 'frontend', url: 'https://frontend.abc123.projects.test/' },
+                { name: 'https://backend.abc123.projects.test/lookup', url: 'https://backend.abc123.projects.test/lookup', expectStatus: undefined },
+                { name: 'https://example.com/', url: 'https://example.com/', expectStatus: 301 }
+            ]);
+        });
+
+        it('resolves declared paths against the frontend of a frontend-only release', () => {
+            const targets = smokeTestTargets({ frontendImage: 'frontend:1', ingressHostFrontend: 'frontend.abc123.projects.test' }, ['/about']);
+            expect(targets.map(target => target.url)).toEqual(['https://frontend.abc123.projects.test/', 'https://frontend.abc123.projects.test/about']);
+        });
+    });
+});
@@ -0,0 +1,225 @@
+import fs from 'fs-extra';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import path from 'path';
+
+// Node-wide defaults, overridable per project via the projects.max_artifact_* columns.
+const DEFAULT_MAX_ARTIFACT_BYTES = parseInt(process.env.CARS_MAX_ARTIFACT_MB || '1024', 10) * 1024 * 1024;
+const DEFAULT_MAX_EXTRACTED_BYTES = parseInt(process.env.CARS_MAX_EXTRACTED_MB || '4096', 10) * 1024 * 1024;
+const DEFAULT_MAX_ARTIFACT_ENTRIES = parseInt(process.env.CARS_MAX_ARTIFACT_ENTRIES || '100000', 10);
+
+const BLOCK_SIZE = 512;
+
+export interface ArtifactLimits {
+    maxArtifactBytes: number;
+    maxExtractedBytes: number;
+    maxEntries: number;
+}
+
+export interface ArtifactSummary {
+    sha256: string;
+    compressedBytes: number;
+    extractedBytes: number;
+    entries: number;
+}
+
+/**
+ * Artifact limits for a project: its own overrides where set, otherwise the node defaults.
+ */
+export function artifactLimitsForProject(project: any): ArtifactLimits {
+    return {
+        maxArtifactBytes: Number(project.max_artifact_bytes) || DEFAULT_MAX_ARTIFACT_BYTES,
+        maxExtractedBytes: Number(project.max_extracted_bytes) || DEFAULT_MAX_EXTRACTED_BYTES,
+        maxEntries: Number(project.max_artifact_entries) || DEFAULT_MAX_ARTIFACT_ENTRIES
+    };
+}
+
+export function sha256File(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('error', reject)
+            .on('data', (chunk) => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')));
+    });
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+    const raw = block.subarray(offset, offset + length);
+    const end = raw.indexOf(0);
+    return raw.subarray(0, end === -1 ? raw.length : end).toString('utf8');
+}
+
+function readSize(block: Buffer): number {
+    const field = block.subarray(124, 136);
+    if (field[0] & 0x80) {
+        // GNU base-256 encoding for entries over 8GB
+        let size = 0;
+        for (let i = 1; i < field.length; i++) {
+            size = size * 256 + field[i];
+        }
+        return size;
+    }
+    const octal = readString(block, 124, 12).trim();
+    return octal ? parseInt(octal, 8) : 0;
+}
+
+function parsePaxPath(data: Buffer): string | undefined {
+    // Records look like "<length> <key>=<value>\n"
+    let paxPath: string | undefined;
+    let offset = 0;
+    while (offset < data.length) {
+        const space = data.indexOf(0x20, offset);
+        if (space === -1) break;
+        const length = parseInt(data.subarray(offset, space).toString('utf8'), 10);
+        if (!length) break;
+        const record = data.subarray(space + 1, offset + length - 1).toString('utf8');
+        const eq = record.indexOf('=');
+        const key = record.slice(0, eq);
+        if (key === 'path') paxPath = record.slice(eq + 1);
+        if (key === 'linkpath') throw new Error('Artifact contains a link, which is not allowed');
+        offset += length;
+    }
+    return paxPath;
+}
+
+function checkEntryPath(name: string) {
+    if (!name || name.includes('\0')) {
+        throw new Error('Artifact contains an entry with an invalid name');
+    }
+    if (path.posix.isAbsolute(name) || /^[a-zA-Z]:[\\/]/.test(name) || name.startsWith('\\')) {
+        throw new Error(`Artifact contains an absolute path: ${name}`);
+    }
+    if (name.split(/[\\/]+/).includes('..')) {
+        throw new Error(`Artifact contains a path that escapes the build directory: ${name}`);
+    }
+}
+
+/**
+ * Stream through a gzipped tarball and check it is safe to extract, without writing anything to disk:
+ * - only regular files and directories (no symlinks, hardlinks or device nodes)
+ * - no absolute paths or `..` segments
+ * - within the compressed size, extracted size and entry count limits
+ * Throws an Error describing the first problem found. Returns the artifact's SHA-256 and totals.
+ */
+export async function inspectArtifact(filePath: string, limits: ArtifactLimits): Promise<ArtifactSummary> {
+    const compressedBytes = (await fs.stat(filePath)).size;
+    if (compressedBytes > limits.maxArtifactBytes) {
+        throw new Error(`Artifact is ${compressedBytes} bytes, over the project limit of ${limits.maxArtifactBytes} bytes`);
+    }
+
+    const hash = crypto.createHash('sha256');
+    const source = fs.createReadStream(filePath);
+    source.on('data', (chunk) => hash.update(chunk));
+    const gunzip = source.pipe(zlib.createGunzip());
+
+    let pending = Buffer.alloc(0);
+    let decompressedBytes = 0;
+    let extractedBytes = 0;
+    let entries = 0;
+    let ended = false;
+
+    // Parser state: either waiting for a header, skipping file data, or collecting a pax/longname body.
+    let skipRemaining = 0;
+    let collect: { type: string, size: number, padded: number } | null = null;
+    let nextName: string | undefined;
+
+    try {
+        for await (const chunk of gunzip) {
+            decompressedBytes += chunk.length;
+            // Headers and padding count too, so a bomb of empty entries can't slip through.
+            if (decompressedBytes > limits.maxExtractedBytes + limits.maxEntries * BLOCK_SIZE * 2) {
+                throw new Error(`Artifact expands beyond the project limit of ${limits.maxExtractedBytes} bytes`);
+            }
+            if (ended) continue;
+            pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+
+            while (!ended) {
+                if (skipRemaining > 0) {
+                    const skip = Math.min(skipRemaining, pending.length);
+                    pending = pending.subarray(skip);
+                    skipRemaining -= skip;
+                    if (skipRemaining > 0) break;
+                    continue;
+                }
+                if (collect) {
+                    if (pending.length < collect.padded) break;
+                    const data = pending.subarray(0, collect.size);
+                    pending = pending.subarray(collect.padded);
+                    if (collect.type === 'x') {
+                        nextName = parsePaxPath(data) ?? nextName;
+                    } else if (collect.type === 'L') {
+                        nextName = data.toString('utf8').replace(/\0+$/, '');
+                    }
+                    collect = null;
+                    continue;
+                }
+                if (pending.length < BLOCK_SIZE) break;
+
+                const header = pending.subarray(0, BLOCK_SIZE);
+                pending = pending.subarray(BLOCK_SIZE);
+                if (header.every(b => b === 0)) {
+                    ended = true;
+                    break;
+                }
+
+                const type = String.fromCharCode(header[156] || 0x30);
+                const size = readSize(header);
+                const padded = Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+                if (type === 'x' || type === 'L') {
+                    if (size > 1024 * 1024) {
+                        throw new Error('Artifact contains an oversized extended header');
+                    }
+                    collect = { type, size, padded };
+                    continue;
+                }
+                if (type === 'g') {
+                    skipRemaining = padded;
+                    continue;
+                }
+                if (type === '1' || type === '2' || type === 'K') {
+                    throw new Error(`Artifact contains a link, which is not allowed: ${nextName || readString(header, 0, 100)}`);
+                }
+                if (type !== '0' && type !== '5' && type !== '7') {
+                    throw new Error(`Artifact contains an unsupported entry type '${type}'`);
+                }
+
+                const prefix = readString(header, 345, 155);
+                const name = nextName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+                nextName = undefined;
+                checkEntryPath(name);
+
+                entries++;
+                if (entries > limits.maxEntries) {
+                    throw new Error(`Artifact has more than the project limit of ${limits.maxEntries} entries`);
+                }
+                extractedBytes += size;
+                if (extractedBytes > limits.maxExtractedBytes) {
+                    throw new Error(`Artifact expands beyond the project limit of ${limits.maxExtractedBytes} bytes`);
+                }
+                skipRemaining = padded;
+            }
+        }
+    } catch (error: any) {
+        source.destroy();
+        if (error.code === 'Z_DATA_ERROR' || error.code === 'Z_BUF_ERROR') {
+            throw new Error('Artifact is not a valid gzipped tarball');
+        }
+        throw error;
+    }
+
+    if (!ended && (pending.length > 0 || skipRemaining > 0 || collect)) {
+        throw new Error('Artifact is truncated or not a valid tarball');
+    }
+    if (entries === 0) {
+        throw new Error('Artifact is empty');
+    }
+
+    return {
+        sha256: hash.digest('hex'),
+        compressedBytes,
+        extractedBytes,
+        entries
+    };
+}
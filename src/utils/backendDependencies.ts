@@ -0,0 +1,69 @@
+/**
+ * Backend dependency locking. Before the dependency layer is built, the generated package.json is
+ * locked in a build on the backend's base image with its build arguments, starting from the backend's
+ * own package-lock.json when one was uploaded: npm keeps every version it locked that still satisfies
+ * the generated package.json and only resolves what is missing (e.g. the packages CARS adds). The
+ * dependency layer then installs the result with `npm ci`, so the versions recorded on the deploy are
+ * exactly the ones it runs. The uploaded backend directory is never modified.
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import { backendBuildArgs, renderBackendLockFiles, writeFiles, type ValidatedDeployment } from './deploymentFiles';
+import type { BuildCommandRunner, ImageBuilder } from './imageBuilder';
+
+export interface LockedDependencies {
+    // Whether locking started from an uploaded package-lock.json or from scratch
+    lockfile: 'uploaded' | 'generated';
+    // Locked version of each direct dependency of the generated package.json
+    versions: Record<string, string>;
+    // The package-lock.json the dependency layer installs from
+    packageLock: string;
+}
+
+/**
+ * Versions a lockfile (v1, v2 or v3) resolves the direct dependencies of `packageJson` to.
+ */
+export function lockedVersions(lock: any, packageJson: any): Record<string, string> {
+    const versions: Record<string, string> = {};
+    const names = [...Object.keys(packageJson.dependencies || {}), ...Object.keys(packageJson.devDependencies || {})];
+    for (const name of names.sort()) {
+        const version = lock.packages?.[`node_modules/${name}`]?.version ?? lock.dependencies?.[name]?.version;
+        if (version) versions[name] = version;
+    }
+    return versions;
+}
+
+/**
+ * Lock the backend's dependencies with `builder`, using `workDir` for the build context and its output.
+ * Throws if npm cannot resolve them, or if the lock does not honour the overlay-express version pinned
+ * in deployment-info.json.
+ */
+export async function lockBackendDependencies(
+    backendDir: string,
+    validated: ValidatedDeployment,
+    workDir: string,
+    builder: ImageBuilder,
+    run: BuildCommandRunner
+): Promise<LockedDependencies> {
+    const files = renderBackendLockFiles(backendDir, validated);
+    const uploaded = files['package-lock.json'] !== undefined;
+
+    const contextDir = path.join(workDir, 'context');
+    const outputDir = path.join(workDir, 'output');
+    fs.removeSync(workDir);
+    fs.ensureDirSync(contextDir);
+    writeFiles(contextDir, files);
+    await builder.export(contextDir, outputDir, run, { buildArgs: backendBuildArgs(validated) });
+
+    const lockPath = path.join(outputDir, 'package-lock.json');
+    if (!fs.existsSync(lockPath)) {
+        throw new Error('Locking the backend dependencies did not produce a package-lock.json');
+    }
+    const packageLock = fs.readFileSync(lockPath, 'utf8');
+    const versions = lockedVersions(JSON.parse(packageLock), JSON.parse(files['package.json']));
+    const pinned = validated.deploymentInfo.backend?.overlayExpressVersion;
+    if (pinned && versions['@bsv/overlay-express'] !== pinned) {
+        throw new Error(`@bsv/overlay-express locked at ${versions['@bsv/overlay-express'] || 'no version'}, but deployment-info.json pins ${pinned}`);
+    }
+    return { lockfile: uploaded ? 'uploaded' : 'generated', versions, packageLock };
+}
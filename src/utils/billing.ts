@@ -3,6 +3,7 @@ import { sendThresholdEmail } from './email';
 import axios from 'axios';
 import db from '../db';
 import { disableIngress, enableIngress } from './ingress';
+import { projectNamespace } from './previews';
 
 // Configurable billing rates (default values as before)
 const CPU_RATE_PER_CORE_5MIN = parseInt(process.env.CPU_RATE_PER_CORE_5MIN || "1000", 10);
@@ -48,55 +49,78 @@ function getCrossedThresholds(oldBalance: number, newBalance: number, alreadyNot
     return relevantThresholds.filter(t => oldBalance >= t && newBalance < t);
 }
 
+interface UsageCosts {
+    cpuCost: number;
+    memCost: number;
+    diskCost: number;
+    netCost: number;
+}
+
+/**
+ * What one namespace used over the last 5 minutes, priced at the configured rates.
+ */
+export async function namespaceUsageCosts(namespace: string): Promise<UsageCosts> {
+    // CPU (CPU cores over last 5m): use rate of cpu_usage_seconds_total
+    // This gives CPU usage in CPU-seconds/s. Multiplying by 300s (5m) is implicit in rate.
+    // The query returns average CPU cores used (since 1 CPU = 1 second/second usage):
+    const cpuQuery = `sum(rate(container_cpu_usage_seconds_total{namespace="${namespace}", image!=""}[5m]))`;
+    const cpuCores = await queryPrometheus(cpuQuery);
+
+    // Memory (use working set bytes): average over last 5 minutes
+    // memory is a gauge, so we can use avg_over_time
+    const memQuery = `avg_over_time(container_memory_working_set_bytes{namespace="${namespace}", image!=""}[5m])`;
+    const memoryBytes = await queryPrometheus(memQuery);
+
+    // Network (sum of rx+tx over last 5m)
+    // Use increase(...) over 5m and sum them
+    const netQuery = `sum(increase(container_network_receive_bytes_total{namespace="${namespace}", image!=""}[5m]) + increase(container_network_transmit_bytes_total{namespace="${namespace}", image!=""}[5m]))`;
+    const networkBytes = await queryPrometheus(netQuery);
+
+    // Disk usage: If we have PVCs, kubelet_volume_stats_used_bytes will be available.
+    // We take average usage over 5m:
+    const diskQuery = `avg_over_time(kubelet_volume_stats_used_bytes{namespace="${namespace}"}[5m])`;
+    let diskBytes = 0;
+    try {
+        diskBytes = await queryPrometheus(diskQuery);
+    } catch (err) {
+        // It's possible no volumes are found. If so, leave diskBytes=0.
+        diskBytes = 0;
+    }
+
+    // Convert to GB
+    const memGB = memoryBytes / (1024 * 1024 * 1024);
+    const diskGB = diskBytes / (1024 * 1024 * 1024);
+    const netGB = networkBytes / (1024 * 1024 * 1024);
+
+    // CPU cores are already in "cores" not millicores due to rate calculation
+    // CPU usage from Prometheus rate is average cores used over the last 5m.
+    return {
+        cpuCost: Math.ceil(cpuCores * CPU_RATE_PER_CORE_5MIN),
+        memCost: Math.ceil(memGB * MEM_RATE_PER_GB_5MIN),
+        diskCost: Math.ceil(diskGB * DISK_RATE_PER_GB_5MIN),
+        netCost: Math.ceil(netGB * NET_RATE_PER_GB_5MIN)
+    };
+}
+
 export async function billProjects() {
     const projects = await db('projects').select('*');
 
     for (const project of projects) {
-        const namespace = `cars-project-${project.project_uuid}`;
         const oldBalance = Number(project.balance);
 
         try {
-            // CPU (CPU cores over last 5m): use rate of cpu_usage_seconds_total
-            // This gives CPU usage in CPU-seconds/s. Multiplying by 300s (5m) is implicit in rate.
-            // The query returns average CPU cores used (since 1 CPU = 1 second/second usage):
-            const cpuQuery = `sum(rate(container_cpu_usage_seconds_total{namespace="${namespace}", image!=""}[5m]))`;
-            const cpuCores = await queryPrometheus(cpuQuery);
-
-            // Memory (use working set bytes): average over last 5 minutes
-            // memory is a gauge, so we can use avg_over_time
-            const memQuery = `avg_over_time(container_memory_working_set_bytes{namespace="${namespace}", image!=""}[5m])`;
-            const memoryBytes = await queryPrometheus(memQuery);
-
-            // Network (sum of rx+tx over last 5m)
-            // Use increase(...) over 5m and sum them
-            const netQuery = `sum(increase(container_network_receive_bytes_total{namespace="${namespace}", image!=""}[5m]) + increase(container_network_transmit_bytes_total{namespace="${namespace}", image!=""}[5m]))`;
-            const networkBytes = await queryPrometheus(netQuery);
-
-            // Disk usage: If we have PVCs, kubelet_volume_stats_used_bytes will be available.
-            // We take average usage over 5m:
-            const diskQuery = `avg_over_time(kubelet_volume_stats_used_bytes{namespace="${namespace}"}[5m])`;
-            let diskBytes = 0;
-            try {
-                diskBytes = await queryPrometheus(diskQuery);
-            } catch (err) {
-                // It's possible no volumes are found. If so, leave diskBytes=0.
-                diskBytes = 0;
+            const { cpuCost, memCost, diskCost, netCost } = await namespaceUsageCosts(projectNamespace(project));
+
+            // Preview environments run in namespaces of their own and are billed to the project
+            const previews = await db('project_previews').where({ project_id: project.id }).whereNull('deleted_at');
+            const previewCosts: Record<string, number> = {};
+            for (const preview of previews) {
+                const costs = await namespaceUsageCosts(projectNamespace(project, preview.name));
+                previewCosts[preview.name] = costs.cpuCost + costs.memCost + costs.diskCost + costs.netCost;
             }
+            const previewCost = Object.values(previewCosts).reduce((sum, cost) => sum + cost, 0);
 
-            // Convert to GB
-            const memGB = memoryBytes / (1024 * 1024 * 1024);
-            const diskGB = diskBytes / (1024 * 1024 * 1024);
-            const netGB = networkBytes / (1024 * 1024 * 1024);
-
-            // CPU cores are already in "cores" not millicores due to rate calculation
-            // CPU usage from Prometheus rate is average cores used over the last 5m.
-
-            const cpuCost = Math.ceil(cpuCores * CPU_RATE_PER_CORE_5MIN);
-            const memCost = Math.ceil(memGB * MEM_RATE_PER_GB_5MIN);
-            const diskCost = Math.ceil(diskGB * DISK_RATE_PER_GB_5MIN);
-            const netCost = Math.ceil(netGB * NET_RATE_PER_GB_5MIN);
-
-            const totalCost = cpuCost + memCost + diskCost + netCost;
+            const totalCost = cpuCost + memCost + diskCost + netCost + previewCost;
 
             if (totalCost > 0) {
                 const newBalance = oldBalance - totalCost;
@@ -108,6 +132,7 @@ export async function billProjects() {
                     memCost,
                     diskCost,
                     netCost,
+                    previewCosts,
                     rates: {
                         CPU_RATE_PER_CORE_5MIN,
                         MEM_RATE_PER_GB_5MIN,
@@ -126,7 +151,7 @@ export async function billProjects() {
 
                 await db('logs').insert({
                     project_id: project.id,
-                    message: `Billed ${totalCost} sat (CPU:${cpuCost}, MEM:${memCost}, DISK:${diskCost}, NET:${netCost}) for last 5m. New balance: ${newBalance}`
+                    message: `Billed ${totalCost} sat (CPU:${cpuCost}, MEM:${memCost}, DISK:${diskCost}, NET:${netCost}${previewCost > 0 ? `, PREVIEWS:${previewCost}` : ''}) for last 5m. New balance: ${newBalance}`
                 });
                 logger.info({ project_uuid: project.project_uuid }, `Billed ${totalCost} sat for project (CPU:${cpuCost}, MEM:${memCost}, DISK:${diskCost}, NET:${netCost}). New balance: ${newBalance}`);
 
@@ -0,0 +1,86 @@
+/**
+ * Per-project build cache for the backend's dependency layer. The npm install runs in its own
+ * image, tagged with a hash of its inputs (the generated package.json, the lockfile if there is
+ * one, and the Dockerfile that installs them). A deploy whose inputs hash the same builds its
+ * backend on top of the image already in the registry instead of reinstalling everything.
+ */
+import fs from 'fs-extra';
+import crypto from 'crypto';
+import type { Knex } from 'knex';
+import { backendBuildArgs, dependenciesImageName, renderBackendDependencyFiles, writeFiles, type ValidatedDeployment } from './deploymentFiles';
+import type { BuildCommandRunner, ImageBuilder } from './imageBuilder';
+
+export interface DependencyLayer {
+    image: string;
+    cacheKey: string;
+    hit: boolean;
+}
+
+/**
+ * Hash of a set of build inputs, independent of the order they are given in.
+ */
+export function dependencyCacheKey(files: Record<string, string>): string {
+    const hash = crypto.createHash('sha256');
+    for (const name of Object.keys(files).sort()) {
+        hash.update(`${name}\0${files[name]}\0`);
+    }
+    return hash.digest('hex');
+}
+
+/**
+ * The dependency layer image a backend directory needs to install `packageLock`, without building anything.
+ */
+export function planDependencyLayer(project: any, backendDir: string, validated: ValidatedDeployment, packageLock: string) {
+    const files = renderBackendDependencyFiles(backendDir, validated, packageLock);
+    const buildArgs = backendBuildArgs(validated);
+    // Build argument values reach the install without appearing in its files
+    const cacheKey = dependencyCacheKey(Object.keys(buildArgs).length > 0 ? { ...files, '(build args)': JSON.stringify(buildArgs) } : files);
+    return { files, buildArgs, cacheKey, image: dependenciesImageName(project, cacheKey) };
+}
+
+/**
+ * Find the backend's dependency layer for `packageLock` in the project's cache, or build and push it into `buildDir`
+ * and add it to the cache. Either way the outcome is reported through `log`.
+ */
+export async function prepareDependencyLayer(
+    db: Knex,
+    project: any,
+    backendDir: string,
+    validated: ValidatedDeployment,
+    packageLock: string,
+    buildDir: string,
+    builder: ImageBuilder,
+    run: BuildCommandRunner,
+    log: (message: string) => Promise<void>
+): Promise<DependencyLayer> {
+    const { files, buildArgs, cacheKey, image } = planDependencyLayer(project, backendDir, validated, packageLock);
+    const shortKey = cacheKey.slice(0, 12);
+
+    const entry = await db('build_cache_entries').where({ project_id: project.id, cache_key: cacheKey }).first();
+    if (entry) {
+        await db('build_cache_entries').where({ id: entry.id }).update({ hits: entry.hits + 1, last_used_at: new Date() });
+        await log(`Build cache hit (${shortKey}): reusing dependency layer ${entry.image}`);
+        return { image: entry.image, cacheKey, hit: true };
+    }
+
+    await log(`Build cache miss (${shortKey}): installing dependencies into ${image}`);
+    fs.removeSync(buildDir);
+    fs.ensureDirSync(buildDir);
+    writeFiles(buildDir, files);
+    await builder.build(buildDir, image, run, { buildArgs });
+    await builder.push(image, run);
+    await db('build_cache_entries')
+        .insert({ project_id: project.id, cache_key: cacheKey, image, last_used_at: new Date() })
+        .onConflict(['project_id', 'cache_key'])
+        .merge({ image, last_used_at: new Date() });
+    await log(`Dependency layer cached: ${image}`);
+    return { image, cacheKey, hit: false };
+}
+
+/**
+ * Drop a cache entry whose image turned out to be unusable (e.g. removed from the registry),
+ * so the next build installs the dependencies again.
+ */
+export async function evictDependencyLayer(db: Knex, project: any, layer: DependencyLayer) {
+    await db('build_cache_entries').where({ project_id: project.id, cache_key: layer.cacheKey }).del();
+}
@@ -0,0 +1,115 @@
+import type { Knex } from 'knex';
+import { Utils, type WalletInterface } from '@bsv/sdk';
+import logger from '../logger';
+
+export type OutputStream = 'stdout' | 'stderr' | 'system';
+
+// Lines are buffered and written in batches so chatty builds (npm, tsc) don't mean one insert per line.
+const FLUSH_INTERVAL_MS = 1000;
+const FLUSH_LINES = 200;
+const MAX_OUTPUT_BYTES = parseInt(process.env.CARS_BUILD_OUTPUT_MAX_BYTES || `${10 * 1024 * 1024}`, 10);
+
+export interface BuildOutputRecorder {
+    write(stream: OutputStream, chunk: string | Buffer): void;
+    flush(): Promise<void>;
+}
+
+/**
+ * Collects the output of commands run for a deploy and persists it line by line
+ * to `deploy_output`, where the build output stream can replay or follow it.
+ */
+export function createBuildOutputRecorder(db: Knex, deployId: number): BuildOutputRecorder {
+    const partial: Record<OutputStream, string> = { stdout: '', stderr: '', system: '' };
+    let pending: { deploy_id: number; stream: OutputStream; content: string }[] = [];
+    let bytesWritten = 0;
+    let truncated = false;
+    let timer: NodeJS.Timeout | null = null;
+    let writing: Promise<void> = Promise.resolve();
+
+    function persist() {
+        if (timer) {
+            clearTimeout(timer);
+            timer = null;
+        }
+        if (pending.length === 0) return writing;
+        const rows = pending;
+        pending = [];
+        writing = writing
+            .then(() => db('deploy_output').insert(rows))
+            .then(() => undefined)
+            .catch((e: any) => logger.error({ deployId, error: e.message }, 'Failed to persist build output'));
+        return writing;
+    }
+
+    function pushLine(stream: OutputStream, content: string) {
+        if (truncated) return;
+        bytesWritten += content.length;
+        if (bytesWritten > MAX_OUTPUT_BYTES) {
+            truncated = true;
+            pending.push({ deploy_id: deployId, stream: 'system', content: `Build output exceeded ${MAX_OUTPUT_BYTES} bytes; further output is not stored.` });
+            return;
+        }
+        pending.push({ deploy_id: deployId, stream, content });
+        if (pending.length >= FLUSH_LINES) {
+            persist();
+        } else if (!timer) {
+            timer = setTimeout(persist, FLUSH_INTERVAL_MS);
+        }
+    }
+
+    return {
+        write(stream: OutputStream, chunk: string | Buffer) {
+            const lines = (partial[stream] + chunk.toString()).split(/\r?\n/);
+            partial[stream] = lines.pop() || '';
+            for (const line of lines) {
+                pushLine(stream, line);
+            }
+        },
+        async flush() {
+            for (const stream of Object.keys(partial) as OutputStream[]) {
+                if (partial[stream]) {
+                    pushLine(stream, partial[stream]);
+                    partial[stream] = '';
+                }
+            }
+            await persist();
+        }
+    };
+}
+
+/**
+ * Read stored output for a deploy, oldest first, starting after a given row id.
+ */
+export async function readBuildOutput(db: Knex, deployId: number, afterId: number = 0, limit: number = 500) {
+    return db('deploy_output')
+        .where({ deploy_id: deployId })
+        .andWhere('id', '>', afterId)
+        .orderBy('id', 'asc')
+        .limit(limit)
+        .select('id', 'stream', 'content', 'created_at');
+}
+
+/**
+ * Signed, unauthenticated URL for following a deploy's build output as Server-Sent Events.
+ * Uses its own signing protocol so it can never be reused as an upload URL.
+ */
+export async function createBuildOutputUrl(wallet: WalletInterface, deploymentId: string): Promise<string> {
+    const { signature } = await wallet.createSignature({
+        data: Utils.toArray(deploymentId, 'hex'),
+        protocolID: [2, 'build output'],
+        keyID: deploymentId,
+        counterparty: 'self'
+    });
+    return `${process.env.CARS_NODE_SERVER_BASEURL || 'http://localhost:7777'}/api/v1/deploy-output/${deploymentId}/${Utils.toHex(signature)}`;
+}
+
+export async function verifyBuildOutputSignature(wallet: WalletInterface, deploymentId: string, signature: string): Promise<boolean> {
+    const { valid } = await wallet.verifySignature({
+        data: Utils.toArray(deploymentId, 'hex'),
+        signature: Utils.toArray(signature, 'hex'),
+        protocolID: [2, 'build output'],
+        keyID: deploymentId,
+        counterparty: 'self'
+    });
+    return valid;
+}
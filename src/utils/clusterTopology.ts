@@ -0,0 +1,213 @@
+/**
+ * Cluster topology: which nodes run project workloads and databases, where the
+ * Mongo arbiter (storage witness) lives, which storage class backs the volumes,
+ * and the ingress class / cert-manager issuer used for project ingresses.
+ *
+ * Loaded once at startup from CARS_CLUSTER_TOPOLOGY_FILE or CARS_CLUSTER_TOPOLOGY
+ * (JSON). Without either, a single-node cluster gets single-node defaults and
+ * anything else keeps the original three-node layout.
+ */
+import fs from 'fs-extra';
+import { execFile } from 'child_process';
+import logger from '../logger';
+
+export interface NodeSelector {
+    key: string;
+    values: string[];
+}
+
+export interface StorageToleration {
+    key: string;
+    value: string;
+    effect: string;
+}
+
+export interface ClusterTopology {
+    // App pods, Mongo data members and the MySQL proxies
+    computeNodes: NodeSelector;
+    // MySQL (PXC) members
+    databaseNodes: NodeSelector;
+    // Node the Mongo arbiter is pinned to; null lets it schedule anywhere
+    witnessNode: { key: string, value: string } | null;
+    // Empty string uses the cluster's default storage class
+    storageClass: string;
+    // Taint carried by storage nodes that database pods must tolerate
+    storageToleration: StorageToleration | null;
+    ingressClass: string;
+    clusterIssuer: string;
+    // Relaxes database replication and anti-affinity so everything fits on one node
+    singleNode: boolean;
+}
+
+const HOSTNAME_LABEL = 'kubernetes.io/hostname';
+
+// The layout every deployment used before topology was configurable
+export const DEFAULT_CLUSTER_TOPOLOGY: ClusterTopology = {
+    computeNodes: { key: HOSTNAME_LABEL, values: ['server2', 'server3'] },
+    databaseNodes: { key: HOSTNAME_LABEL, values: ['server2', 'server3', 'box'] },
+    witnessNode: { key: HOSTNAME_LABEL, value: 'box' },
+    storageClass: 'longhorn-replicated',
+    storageToleration: { key: 'storage.longhorn.io/node', value: 'true', effect: 'NoSchedule' },
+    ingressClass: 'nginx',
+    clusterIssuer: 'letsencrypt-production',
+    singleNode: false
+};
+
+let loadedTopology: ClusterTopology | null = null;
+
+/**
+ * Defaults for a cluster with only one node: everything is pinned to it and the
+ * default storage class is used.
+ */
+export function singleNodeTopology(nodeName: string, storageClass = ''): ClusterTopology {
+    return {
+        computeNodes: { key: HOSTNAME_LABEL, values: [nodeName] },
+        databaseNodes: { key: HOSTNAME_LABEL, values: [nodeName] },
+        witnessNode: null,
+        storageClass,
+        storageToleration: null,
+        ingressClass: DEFAULT_CLUSTER_TOPOLOGY.ingressClass,
+        clusterIssuer: DEFAULT_CLUSTER_TOPOLOGY.clusterIssuer,
+        singleNode: true
+    };
+}
+
+function validSelector(selector: any): selector is NodeSelector {
+    return Boolean(selector) && typeof selector.key === 'string' && selector.key.length > 0 &&
+        Array.isArray(selector.values) && selector.values.length > 0 &&
+        selector.values.every((v: any) => typeof v === 'string' && v.length > 0);
+}
+
+/**
+ * Merges a (partial) topology over a base and checks the result. Throws on
+ * anything that would render an unschedulable chart.
+ */
+export function mergeClusterTopology(base: ClusterTopology, update: any): ClusterTopology {
+    if (update === null || typeof update !== 'object' || Array.isArray(update)) {
+        throw new Error('Cluster topology must be a JSON object');
+    }
+    // Plain lists of node names are shorthand for hostname selectors
+    const selector = (value: any) => Array.isArray(value) ? { key: HOSTNAME_LABEL, values: value } : value;
+    const computeNodes = update.computeNodes === undefined ? base.computeNodes : selector(update.computeNodes);
+    const topology: ClusterTopology = {
+        ...base,
+        ...update,
+        computeNodes,
+        // Databases follow the compute nodes unless placed separately
+        databaseNodes: update.databaseNodes !== undefined
+            ? selector(update.databaseNodes)
+            : (update.computeNodes !== undefined ? computeNodes : base.databaseNodes),
+        witnessNode: typeof update.witnessNode === 'string'
+            ? { key: HOSTNAME_LABEL, value: update.witnessNode }
+            : (update.witnessNode === undefined ? base.witnessNode : update.witnessNode)
+    };
+
+    if (!validSelector(topology.computeNodes)) {
+        throw new Error('computeNodes must be a list of node names or { key, values }');
+    }
+    if (!validSelector(topology.databaseNodes)) {
+        throw new Error('databaseNodes must be a list of node names or { key, values }');
+    }
+    if (topology.witnessNode !== null && (typeof topology.witnessNode?.key !== 'string' || typeof topology.witnessNode?.value !== 'string' || !topology.witnessNode.value)) {
+        throw new Error('witnessNode must be a node name, { key, value } or null');
+    }
+    if (typeof topology.storageClass !== 'string') {
+        throw new Error('storageClass must be a string');
+    }
+    if (topology.storageToleration !== null && (typeof topology.storageToleration?.key !== 'string' || !topology.storageToleration.key)) {
+        throw new Error('storageToleration must be { key, value, effect } or null');
+    }
+    if (typeof topology.ingressClass !== 'string' || !topology.ingressClass) {
+        throw new Error('ingressClass must be a non-empty string');
+    }
+    if (typeof topology.clusterIssuer !== 'string' || !topology.clusterIssuer) {
+        throw new Error('clusterIssuer must be a non-empty string');
+    }
+    topology.singleNode = Boolean(topology.singleNode);
+    return topology;
+}
+
+function kubectlJson(args: string[]): Promise<any> {
+    return new Promise((resolve, reject) => {
+        execFile('kubectl', [...args, '-o', 'json'], { timeout: 30000, maxBuffer: 16 * 1024 * 1024 }, (error, stdout) => {
+            if (error) return reject(error);
+            try {
+                resolve(JSON.parse(stdout));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    });
+}
+
+async function detectTopology(): Promise<ClusterTopology> {
+    let nodes: any[];
+    try {
+        nodes = (await kubectlJson(['get', 'nodes'])).items || [];
+    } catch (e: any) {
+        logger.warn(`Could not list cluster nodes (${e.message}), using the default cluster topology`);
+        return DEFAULT_CLUSTER_TOPOLOGY;
+    }
+    if (nodes.length !== 1) {
+        return DEFAULT_CLUSTER_TOPOLOGY;
+    }
+
+    const nodeName = nodes[0].metadata?.labels?.[HOSTNAME_LABEL] || nodes[0].metadata?.name;
+    let storageClass = '';
+    try {
+        const classes = (await kubectlJson(['get', 'storageclasses'])).items || [];
+        const defaultClass = classes.find((c: any) =>
+            c.metadata?.annotations?.['storageclass.kubernetes.io/is-default-class'] === 'true');
+        storageClass = defaultClass?.metadata?.name || '';
+    } catch (e: any) {
+        logger.warn(`Could not list storage classes (${e.message}), using the cluster default`);
+    }
+    return singleNodeTopology(nodeName, storageClass);
+}
+
+/**
+ * Loads the cluster topology. Called once at startup; the result is served by
+ * getClusterTopology() for the lifetime of the process.
+ */
+export async function loadClusterTopology(): Promise<ClusterTopology> {
+    const file = process.env.CARS_CLUSTER_TOPOLOGY_FILE;
+    const inline = process.env.CARS_CLUSTER_TOPOLOGY;
+
+    if (file || inline) {
+        const source = file ? `CARS_CLUSTER_TOPOLOGY_FILE (${file})` : 'CARS_CLUSTER_TOPOLOGY';
+        try {
+            const parsed = JSON.parse(file ? await fs.readFile(file, 'utf-8') : inline!);
+            loadedTopology = mergeClusterTopology(DEFAULT_CLUSTER_TOPOLOGY, parsed);
+        } catch (e: any) {
+            throw new Error(`Invalid cluster topology in ${source}: ${e.message}`);
+        }
+        logger.info(`Cluster topology loaded from ${source}`);
+    } else {
+        loadedTopology = await detectTopology();
+        logger.info(loadedTopology.singleNode
+            ? `Single-node cluster detected, scheduling everything on ${loadedTopology.computeNodes.values[0]}`
+            : 'Using the default cluster topology');
+    }
+    return loadedTopology;
+}
+
+export function getClusterTopology(): ClusterTopology {
+    return loadedTopology || DEFAULT_CLUSTER_TOPOLOGY;
+}
+
+/**
+ * Helm values for the topology. Applied after any recorded values so a rollback
+ * renders against the cluster as it is now, not as it was.
+ */
+export function clusterTopologyValues(topology: ClusterTopology) {
+    return {
+        computeNodes: topology.computeNodes,
+        databaseNodes: topology.databaseNodes,
+        storageWitnessNode: topology.witnessNode,
+        storageClass: topology.storageClass,
+        storageToleration: topology.storageToleration,
+        ingressClass: topology.ingressClass,
+        clusterIssuer: topology.clusterIssuer,
+        singleNode: topology.singleNode
+    };
+}
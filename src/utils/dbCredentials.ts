@@ -0,0 +1,86 @@
+/**
+ * Per-project database credentials. Generated when a project is created and
+ * stored envelope-encrypted in projects.db_credentials; they reach the cluster
+ * only through the release's Secrets.
+ */
+import crypto from 'crypto';
+import { decryptValue, encryptValue, projectPrivateKey } from './encryption';
+
+export interface DbCredentials {
+    mysqlDatabase: string;
+    mysqlUser: string;
+    mysqlPassword: string;
+    mysqlRootPassword: string;
+    // Internal users of the Percona operator
+    mysqlMonitorPassword: string;
+    mysqlProxyadminPassword: string;
+    mysqlXtrabackupPassword: string;
+    mysqlClustercheckPassword: string;
+    mysqlReplicationPassword: string;
+    mysqlOperatorPassword: string;
+    mongoRootUsername: string;
+    mongoRootPassword: string;
+    // Shared key file for replica set members
+    mongoReplicaSetKey: string;
+}
+
+function randomPassword(): string {
+    // Hex keeps the passwords safe inside connection URLs and shell scripts
+    return crypto.randomBytes(24).toString('hex');
+}
+
+export function generateDbCredentials(): DbCredentials {
+    return {
+        mysqlDatabase: 'projectdb',
+        mysqlUser: 'projectUser',
+        mysqlPassword: randomPassword(),
+        mysqlRootPassword: randomPassword(),
+        mysqlMonitorPassword: randomPassword(),
+        mysqlProxyadminPassword: randomPassword(),
+        mysqlXtrabackupPassword: randomPassword(),
+        mysqlClustercheckPassword: randomPassword(),
+        mysqlReplicationPassword: randomPassword(),
+        mysqlOperatorPassword: randomPassword(),
+        mongoRootUsername: 'root',
+        mongoRootPassword: randomPassword(),
+        mongoReplicaSetKey: crypto.randomBytes(48).toString('base64')
+    };
+}
+
+/**
+ * The fixed credentials every project used before they were generated. Projects created
+ * before then keep them: their databases were initialised with these passwords.
+ */
+export function legacyDbCredentials(project: any): DbCredentials {
+    const privateKey = projectPrivateKey(project);
+    return {
+        mysqlDatabase: 'projectdb',
+        mysqlUser: 'projectUser',
+        mysqlPassword: 'projectPass',
+        mysqlRootPassword: 'rootpassword',
+        mysqlMonitorPassword: 'monitor-password',
+        mysqlProxyadminPassword: 'proxyadmin-password',
+        mysqlXtrabackupPassword: 'xtrabackup-password',
+        mysqlClustercheckPassword: 'clustercheck-password',
+        mysqlReplicationPassword: 'replication-password',
+        mysqlOperatorPassword: 'operator-password',
+        mongoRootUsername: 'root',
+        mongoRootPassword: 'rootpassword',
+        mongoReplicaSetKey: `${privateKey}${privateKey}${privateKey}`
+    };
+}
+
+export function sealDbCredentials(credentials: DbCredentials): string {
+    return encryptValue(JSON.stringify(credentials));
+}
+
+/**
+ * The project's database credentials, falling back to the legacy fixed set for
+ * projects that predate generated credentials.
+ */
+export function dbCredentialsForProject(project: any): DbCredentials {
+    if (!project.db_credentials) {
+        return legacyDbCredentials(project);
+    }
+    return JSON.parse(decryptValue(project.db_credentials));
+}
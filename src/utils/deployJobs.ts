@@ -0,0 +1,337 @@
+import type { Knex } from 'knex';
+import type { WalletInterface } from '@bsv/sdk';
+import fs from 'fs-extra';
+import path from 'path';
+import logger from '../logger';
+import { sendDeploymentFailureEmail } from './email';
+import { runAbortJob, runDeploymentJob, runPromotionJob, runRollbackJob } from './deployPipeline';
+import { setDeployStatus } from './deployStatus';
+import { acquireProjectDeployLock, refreshProjectDeployLock, releaseProjectDeployLock } from './deployLocks';
+
+export type DeploymentJobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface DeploymentWallets {
+    mainnetWallet: WalletInterface;
+    testnetWallet: WalletInterface;
+}
+
+// How often the worker looks for queued jobs, and how often running jobs prove they are alive.
+const POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// A running job whose heartbeat is older than this is considered orphaned (node restart or crash).
+const STALE_JOB_MS = parseInt(process.env.CARS_DEPLOY_STALE_JOB_SECONDS || '120', 10) * 1000;
+const MAX_ATTEMPTS = parseInt(process.env.CARS_DEPLOY_MAX_ATTEMPTS || '3', 10);
+const CONCURRENCY = parseInt(process.env.CARS_DEPLOY_CONCURRENCY || '2', 10);
+
+// What each job kind runs. 'deploy' builds from an uploaded artifact, 'rollback' reuses recorded images,
+// 'promote' and 'abort' finish a blue/green or canary deploy that is awaiting promotion.
+const JOB_RUNNERS: Record<string, (db: Knex, wallets: DeploymentWallets, job: any, signal: AbortSignal) => Promise<void>> = {
+    deploy: runDeploymentJob,
+    rollback: runRollbackJob,
+    promote: runPromotionJob,
+    abort: runAbortJob
+};
+
+// Jobs running inside this process, so recovery never mistakes them for orphans.
+// Aborting a job's controller kills whatever command it is running.
+const activeJobs = new Map<number, AbortController>();
+
+/**
+ * Queue a job for a deploy. The worker picks it up on its next poll.
+ */
+export async function enqueueDeploymentJob(db: Knex, deploy: any, kind: string = 'deploy'): Promise<number> {
+    const [jobId] = await db('deployment_jobs').insert({
+        deploy_id: deploy.id,
+        project_id: deploy.project_id,
+        kind,
+        state: 'queued'
+    });
+    await setDeployStatus(db, deploy.id, 'queued', { failure_reason: null });
+    await db('logs').insert({
+        project_id: deploy.project_id,
+        deploy_id: deploy.id,
+        message: `Deployment job ${jobId} queued`
+    });
+    return jobId;
+}
+
+/**
+ * Returns the queued or running job for a deploy, if any.
+ */
+export async function findActiveJobForDeploy(db: Knex, deployId: number) {
+    return db('deployment_jobs')
+        .where({ deploy_id: deployId })
+        .whereIn('state', ['queued', 'running'])
+        .orderBy('id', 'desc')
+        .first();
+}
+
+/**
+ * Cancel a deploy's queued or running job.
+ * A queued job is cancelled on the spot. A running job is flagged, and the node running it
+ * kills its current command and cleans up (immediately if that is this node, otherwise on its next heartbeat).
+ * Returns false if the deploy has no job in progress.
+ */
+export async function cancelDeploymentJob(db: Knex, deploy: any, cancelledBy: string): Promise<boolean> {
+    const job = await findActiveJobForDeploy(db, deploy.id);
+    if (!job) return false;
+
+    const cancelledWhileQueued = await db('deployment_jobs')
+        .where({ id: job.id, state: 'queued' })
+        .update({ state: 'cancelled', cancel_requested_at: new Date(), cancelled_by: cancelledBy, finished_at: new Date() });
+    if (cancelledWhileQueued) {
+        await finishCancelledJob(db, { ...job, cancelled_by: cancelledBy });
+        return true;
+    }
+
+    await db('deployment_jobs')
+        .where({ id: job.id, state: 'running' })
+        .update({ cancel_requested_at: new Date(), cancelled_by: cancelledBy });
+    activeJobs.get(job.id)?.abort();
+    return true;
+}
+
+/**
+ * Record a cancelled job on its deploy and remove its working files.
+ */
+async function finishCancelledJob(db: Knex, job: any) {
+    const deploy = await db('deploys').where({ id: job.deploy_id }).first();
+    if (deploy) {
+        fs.removeSync(path.join('/tmp', `build_${deploy.deployment_uuid}`));
+        if (deploy.file_path) {
+            fs.removeSync(deploy.file_path);
+        }
+    }
+    await setDeployStatus(db, job.deploy_id, 'cancelled', { failure_reason: null });
+    await db('logs').insert({
+        project_id: job.project_id,
+        deploy_id: job.deploy_id,
+        message: `Deployment cancelled by ${job.cancelled_by || 'an administrator'}`
+    });
+    logger.info({ jobId: job.id, deployId: job.deploy_id }, 'Deployment job cancelled');
+}
+
+async function notifyDeploymentFailure(db: Knex, deployId: number, errorMessage: string) {
+    try {
+        const deploy = await db('deploys').where({ id: deployId }).first();
+        const project = await db('projects').where({ id: deploy.project_id }).first();
+        const admins = await db('project_admins')
+            .join('users', 'users.identity_key', 'project_admins.identity_key')
+            .where({ 'project_admins.project_id': project.id })
+            .select('users.email', 'users.identity_key');
+        const emails = admins.map((a: any) => a.email);
+        const creator = await db('users').where({ identity_key: deploy.creator_identity_key }).first();
+
+        const subject = `Deployment Failure for Project: ${project.name}`;
+        const body = `Hello,
+
+A deployment for project "${project.name}" (ID: ${project.project_uuid}) has failed.
+Deployment ID: ${deploy.deployment_uuid}
+
+Error Details:
+${errorMessage}
+
+Originated by: ${deploy.creator_identity_key} (${creator?.email})
+
+Please check the logs for more details.
+
+Regards,
+CARS System`;
+
+        await sendDeploymentFailureEmail(emails, project, body, subject);
+    } catch (ignore) {
+        // ignore any email-sending errors
+    }
+}
+
+async function failJob(db: Knex, job: any, errorMessage: string) {
+    await db('deployment_jobs').where({ id: job.id }).update({
+        state: 'failed',
+        error: errorMessage,
+        finished_at: new Date()
+    });
+    await db('logs').insert({
+        project_id: job.project_id,
+        deploy_id: job.deploy_id,
+        message: `Error handling upload: ${errorMessage}`
+    });
+    await setDeployStatus(db, job.deploy_id, 'failed', { failure_reason: errorMessage });
+    logger.error({ jobId: job.id, deployId: job.deploy_id }, `Deployment job failed: ${errorMessage}`);
+    await notifyDeploymentFailure(db, job.deploy_id, errorMessage);
+}
+
+/**
+ * Find running jobs whose heartbeat stopped (the node running them restarted or crashed)
+ * and either re-queue them for another attempt or fail them.
+ */
+async function recoverInterruptedJobs(db: Knex) {
+    const staleBefore = new Date(Date.now() - STALE_JOB_MS);
+    const staleJobs = await db('deployment_jobs')
+        .where({ state: 'running' })
+        .andWhere(q => q.where('heartbeat_at', '<', staleBefore).orWhereNull('heartbeat_at'));
+
+    for (const job of staleJobs) {
+        if (activeJobs.has(job.id)) continue;
+
+        if (job.cancel_requested_at) {
+            const cancelled = await db('deployment_jobs')
+                .where({ id: job.id, state: 'running' })
+                .update({ state: 'cancelled', finished_at: new Date() });
+            if (cancelled) {
+                await finishCancelledJob(db, job);
+            }
+            continue;
+        }
+
+        const deploy = await db('deploys').where({ id: job.deploy_id }).first();
+        // Git deploys are cloned again on resume, so only uploaded artifacts can go missing
+        const artifactAvailable = job.kind !== 'deploy' || deploy?.git_url || (deploy?.file_path && fs.existsSync(deploy.file_path));
+
+        if (job.attempts < MAX_ATTEMPTS && artifactAvailable) {
+            const requeued = await db('deployment_jobs')
+                .where({ id: job.id, state: 'running' })
+                .update({ state: 'queued', heartbeat_at: null });
+            if (requeued) {
+                await setDeployStatus(db, job.deploy_id, 'queued');
+                await db('logs').insert({
+                    project_id: job.project_id,
+                    deploy_id: job.deploy_id,
+                    message: `Deployment job ${job.id} was interrupted (attempt ${job.attempts}), re-queued to resume`
+                });
+                logger.warn({ jobId: job.id }, 'Re-queued interrupted deployment job');
+            }
+        } else {
+            const reason = artifactAvailable
+                ? `Deployment interrupted ${job.attempts} times, giving up`
+                : 'Deployment interrupted and its artifact is no longer available on this node';
+            const claimed = await db('deployment_jobs')
+                .where({ id: job.id, state: 'running' })
+                .update({ state: 'failed', error: reason, finished_at: new Date() });
+            if (claimed) {
+                await setDeployStatus(db, job.deploy_id, 'failed', { failure_reason: reason });
+                await db('logs').insert({
+                    project_id: job.project_id,
+                    deploy_id: job.deploy_id,
+                    message: `Error handling upload: ${reason}`
+                });
+                logger.error({ jobId: job.id }, reason);
+                await notifyDeploymentFailure(db, job.deploy_id, reason);
+            }
+        }
+    }
+}
+
+/**
+ * Atomically claim the oldest queued job whose project is not already being deployed.
+ * Returns undefined if none could be claimed.
+ */
+async function claimNextJob(db: Knex) {
+    const candidates = await db('deployment_jobs')
+        .where({ state: 'queued' })
+        .orderBy('id', 'asc')
+        .limit(50);
+
+    for (const candidate of candidates) {
+        // Jobs of a project run one at a time, in the order they were queued
+        if (!(await acquireProjectDeployLock(db, candidate))) continue;
+
+        const claimed = await db('deployment_jobs')
+            .where({ id: candidate.id, state: 'queued' })
+            .update({
+                state: 'running',
+                attempts: candidate.attempts + 1,
+                started_at: new Date(),
+                heartbeat_at: new Date()
+            });
+        if (claimed) {
+            return db('deployment_jobs').where({ id: candidate.id }).first();
+        }
+        await releaseProjectDeployLock(db, candidate);
+    }
+    return undefined;
+}
+
+async function executeJob(db: Knex, wallets: DeploymentWallets, job: any) {
+    const controller = new AbortController();
+    activeJobs.set(job.id, controller);
+    const heartbeat = setInterval(() => {
+        db('deployment_jobs')
+            .where({ id: job.id, state: 'running' })
+            .update({ heartbeat_at: new Date() })
+            .then(() => refreshProjectDeployLock(db, job))
+            .then(() => db('deployment_jobs').where({ id: job.id }).select('cancel_requested_at').first())
+            .then((current: any) => {
+                // Cancellation requested through another node
+                if (current?.cancel_requested_at && !controller.signal.aborted) {
+                    controller.abort();
+                }
+            })
+            .catch((e: any) => logger.error({ jobId: job.id, error: e.message }, 'Failed to record job heartbeat'));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+        const runner = JOB_RUNNERS[job.kind];
+        if (!runner) {
+            throw new Error(`Unknown deployment job kind: ${job.kind}`);
+        }
+        logger.info({ jobId: job.id, kind: job.kind, attempt: job.attempts }, 'Starting deployment job');
+        if (job.cancel_requested_at) {
+            controller.abort();
+        }
+        await runner(db, wallets, job, controller.signal);
+        await db('deployment_jobs').where({ id: job.id }).update({
+            state: 'succeeded',
+            error: null,
+            finished_at: new Date()
+        });
+    } catch (error: any) {
+        if (controller.signal.aborted) {
+            await db('deployment_jobs').where({ id: job.id }).update({ state: 'cancelled', finished_at: new Date() });
+            const current = await db('deployment_jobs').where({ id: job.id }).first();
+            await finishCancelledJob(db, current);
+        } else {
+            await failJob(db, job, error.message);
+        }
+    } finally {
+        clearInterval(heartbeat);
+        activeJobs.delete(job.id);
+        await releaseProjectDeployLock(db, job)
+            .catch((e: any) => logger.error({ jobId: job.id, error: e.message }, 'Failed to release project deployment lock'));
+    }
+}
+
+/**
+ * Start the background worker that runs queued deployment jobs.
+ * Jobs are claimed from the database, so anything queued before a restart is picked up again.
+ * Returns a function that stops polling; jobs already running carry on to the end.
+ */
+export function startDeploymentWorker(db: Knex, mainnetWallet: WalletInterface, testnetWallet: WalletInterface): () => void {
+    const wallets: DeploymentWallets = { mainnetWallet, testnetWallet };
+    let polling = false;
+
+    const poll = async () => {
+        if (polling) return;
+        polling = true;
+        try {
+            await recoverInterruptedJobs(db);
+            while (activeJobs.size < CONCURRENCY) {
+                const job = await claimNextJob(db);
+                if (!job) break;
+                // Runs in the background; if recording its outcome fails, the job stops heartbeating
+                // and recoverInterruptedJobs picks it up again
+                executeJob(db, wallets, job)
+                    .catch((e: any) => logger.error({ jobId: job.id, error: e.message }, 'Failed to record deployment job outcome'));
+            }
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Error in deployment worker');
+        } finally {
+            polling = false;
+        }
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+    logger.info({ concurrency: CONCURRENCY }, 'Deployment worker started');
+    return () => clearInterval(timer);
+}
@@ -0,0 +1,78 @@
+import type { Knex } from 'knex';
+import logger from '../logger';
+
+export const CONCURRENT_DEPLOY_POLICIES = ['queue', 'reject'] as const;
+export type ConcurrentDeployPolicy = typeof CONCURRENT_DEPLOY_POLICIES[number];
+
+// A lock whose heartbeat is older than this belongs to a job that is no longer running anywhere.
+const STALE_LOCK_MS = parseInt(process.env.CARS_DEPLOY_STALE_JOB_SECONDS || '120', 10) * 1000;
+
+/**
+ * The deployment currently in progress for a project, other than `excludeDeployId`:
+ * the holder of the project's lock, otherwise the oldest queued or running job.
+ */
+export async function findDeploymentInProgress(db: Knex, projectId: number, excludeDeployId?: number) {
+    const query = db('deployment_jobs')
+        .join('deploys', 'deploys.id', 'deployment_jobs.deploy_id')
+        .leftJoin('project_deploy_locks', 'project_deploy_locks.job_id', 'deployment_jobs.id')
+        .where('deployment_jobs.project_id', projectId)
+        .whereIn('deployment_jobs.state', ['queued', 'running'])
+        .orderByRaw('project_deploy_locks.job_id IS NULL')
+        .orderBy('deployment_jobs.id', 'asc')
+        .select('deployment_jobs.id as jobId', 'deployment_jobs.state', 'deploys.id as deployId', 'deploys.deployment_uuid as deploymentId')
+        .first();
+    if (excludeDeployId) {
+        query.whereNot('deployment_jobs.deploy_id', excludeDeployId);
+    }
+    return query;
+}
+
+/**
+ * Try to take the project's deployment lock for a job. Returns false if another live job holds it.
+ * A lock left behind by a job that finished, failed or stopped heartbeating is taken over.
+ */
+export async function acquireProjectDeployLock(db: Knex, job: any): Promise<boolean> {
+    const existing = await db('project_deploy_locks').where({ project_id: job.project_id }).first();
+    if (existing) {
+        if (existing.job_id === job.id) return true;
+
+        const holder = await db('deployment_jobs').where({ id: existing.job_id }).first();
+        const holderAlive = holder && ['queued', 'running'].includes(holder.state)
+            && new Date(existing.heartbeat_at).getTime() > Date.now() - STALE_LOCK_MS;
+        if (holderAlive) return false;
+
+        const released = await db('project_deploy_locks')
+            .where({ project_id: job.project_id, job_id: existing.job_id })
+            .del();
+        if (released) {
+            logger.warn({ projectId: job.project_id, jobId: existing.job_id }, 'Recovered stale project deployment lock');
+        }
+    }
+
+    try {
+        await db('project_deploy_locks').insert({
+            project_id: job.project_id,
+            deploy_id: job.deploy_id,
+            job_id: job.id,
+            acquired_at: new Date(),
+            heartbeat_at: new Date()
+        });
+        return true;
+    } catch (error: any) {
+        // Another node took it first
+        if (error.code === 'ER_DUP_ENTRY') return false;
+        throw error;
+    }
+}
+
+export async function refreshProjectDeployLock(db: Knex, job: any) {
+    await db('project_deploy_locks')
+        .where({ project_id: job.project_id, job_id: job.id })
+        .update({ heartbeat_at: new Date() });
+}
+
+export async function releaseProjectDeployLock(db: Knex, job: any) {
+    await db('project_deploy_locks')
+        .where({ project_id: job.project_id, job_id: job.id })
+        .del();
+}
@@ -0,0 +1,820 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { Knex } from 'knex';
+import { spawn } from 'child_process';
+import logger from '../logger';
+import { findBalanceForKey, fundKey } from './wallet';
+import { writeHelmChart } from './helmChart';
+import { setDeployStatus } from './deployStatus';
+import type { DeploymentWallets } from './deployJobs';
+import { createBuildOutputRecorder, type BuildOutputRecorder } from './buildOutput';
+import { artifactLimitsForProject, sha256File } from './artifact';
+import { checkoutGitSource } from './gitSource';
+import { getImageBuilder, type BuildCommandRunner } from './imageBuilder';
+import { evictDependencyLayer, prepareDependencyLayer } from './buildCache';
+import { lockBackendDependencies } from './backendDependencies';
+import { FRONTEND_DOCKERFILE, isServerFrontendBuild, planFrontendBuild } from './frontendBuild';
+import { parseMemory } from './resourceProfile';
+import { loadProjectEnv } from './projectEnv';
+import { projectPrivateKey } from './encryption';
+import { runSmokeTests, smokeTestTargets, type DeclaredSmokeTest } from './smokeTests';
+import {
+  isStagedStrategy, liveRelease, planRelease, recordedValues, singleSlotLayout, slotDeploymentName,
+  stagedLayout, supersedeCandidates, type ReleaseLayout, type ReleasePlan, type ReleaseSlot, type SlotImages
+} from './releaseStrategy';
+import { previewForDeploy, projectNamespace, projectReleaseName } from './previews';
+import {
+  BACKEND_PORT,
+  backendBuildArgs,
+  backendBuildWarnings,
+  customBackendDockerfile,
+  deploymentImages,
+  renderBackendFiles,
+  renderFrontendFiles,
+  validateDeploymentInfo,
+  writeFiles
+} from './deploymentFiles';
+
+/**
+ * Steps that already succeeded for a job in an earlier attempt.
+ * Used to resume rather than redo expensive work after a restart.
+ */
+export async function completedSteps(db: Knex, jobId: number): Promise<Set<string>> {
+  const rows = await db('deployment_job_steps')
+    .where({ job_id: jobId, status: 'succeeded' })
+    .select('step');
+  return new Set(rows.map((r: any) => r.step));
+}
+
+/**
+ * Run one named step of a job, recording its status and duration.
+ */
+export async function recordStep<T>(db: Knex, job: any, step: string, fn: () => Promise<T>): Promise<T> {
+  const startedAt = Date.now();
+  const [stepId] = await db('deployment_job_steps').insert({
+    job_id: job.id,
+    step,
+    attempt: job.attempts,
+    status: 'running'
+  });
+  try {
+    const result = await fn();
+    await db('deployment_job_steps').where({ id: stepId }).update({
+      status: 'succeeded',
+      finished_at: new Date(),
+      duration_ms: Date.now() - startedAt
+    });
+    return result;
+  } catch (error: any) {
+    await db('deployment_job_steps').where({ id: stepId }).update({
+      status: 'failed',
+      message: error.message,
+      finished_at: new Date(),
+      duration_ms: Date.now() - startedAt
+    });
+    throw error;
+  }
+}
+
+async function skipStep(db: Knex, job: any, step: string, message: string) {
+  await db('deployment_job_steps').insert({
+    job_id: job.id,
+    step,
+    attempt: job.attempts,
+    status: 'skipped',
+    message,
+    finished_at: new Date(),
+    duration_ms: 0
+  });
+}
+
+// How long a cancelled command gets to exit after SIGTERM before it is killed outright.
+const KILL_GRACE_MS = 10000;
+
+// How long Helm and rollouts may take before a release is considered failed.
+const helmTimeout = process.env.CARS_HELM_TIMEOUT || '20m';
+
+// How long a cancelled `helm upgrade --atomic` gets to roll itself back before it is killed.
+// Killing it sooner can leave the release pending, which blocks every later upgrade.
+const HELM_CANCEL_GRACE_MS = parseInt(process.env.CARS_HELM_CANCEL_GRACE_SECONDS || '300', 10) * 1000;
+
+export interface RunCmdOptions {
+  cwd?: string;
+  output?: BuildOutputRecorder;
+  signal?: AbortSignal;
+  // How long the command gets to exit after SIGTERM when cancelled (default KILL_GRACE_MS)
+  killGraceMs?: number;
+}
+
+/**
+ * Run a shell command without blocking the event loop, so job heartbeats
+ * keep flowing during long builds and Helm installs.
+ * When an output recorder is given, stdout/stderr are captured for the deploy
+ * (and still echoed to the node's own output).
+ * When the signal aborts, the command's whole process group is terminated and the promise rejects;
+ * an already-aborted signal means the command is never started.
+ */
+export function runCmd(cmd: string, options: RunCmdOptions = {}): Promise<void> {
+  const { output, signal, killGraceMs = KILL_GRACE_MS, ...spawnOptions } = options;
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(new Error('Deployment cancelled'));
+    }
+    // Detached so the command gets its own process group: buildah and helm run under a shell,
+    // and killing only the shell would leave them running.
+    const child = spawn(cmd, { shell: true, detached: true, stdio: ['ignore', 'pipe', 'pipe'], ...spawnOptions });
+    let killTimer: NodeJS.Timeout | undefined;
+    const onAbort = () => {
+      output?.write('system', `Cancelling: ${cmd}\n`);
+      try {
+        process.kill(-child.pid!, 'SIGTERM');
+        killTimer = setTimeout(() => {
+          try {
+            process.kill(-child.pid!, 'SIGKILL');
+          } catch (ignore) {
+            // already exited
+          }
+        }, killGraceMs);
+      } catch (ignore) {
+        // already exited
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    output?.write('system', `$ ${cmd}\n`);
+    child.stdout.on('data', (chunk: Buffer) => {
+      process.stdout.write(chunk);
+      output?.write('stdout', chunk);
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      process.stderr.write(chunk);
+      output?.write('stderr', chunk);
+    });
+    child.on('error', (err) => reject(new Error(`Command failed (${cmd}): ${err.message}`)));
+    child.on('close', async (code) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (killTimer) clearTimeout(killTimer);
+      await output?.flush();
+      if (signal?.aborted) {
+        reject(new Error('Deployment cancelled'));
+      } else if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Command failed (${cmd}): exited with code ${code}`));
+      }
+    });
+  });
+}
+
+/**
+ * Returns a logger that writes to the deploy's `logs` rows and the node logger,
+ * and interleaves the message with the deploy's captured build output.
+ */
+function deployLogger(db: Knex, project: any, deploy: any, output: BuildOutputRecorder) {
+  const deploymentId: string = deploy.deployment_uuid;
+  return async function logStep(message: string, level: 'info' | 'error' = 'info') {
+    await db('logs').insert({
+      project_id: project.id,
+      deploy_id: deploy.id,
+      message
+    });
+    output.write('system', `${message}\n`);
+    await output.flush();
+    if (level === 'info') {
+      logger.info({ deploymentId }, message);
+    } else {
+      logger.error({ deploymentId }, message);
+    }
+  };
+}
+
+type LogStep = ReturnType<typeof deployLogger>;
+
+/**
+ * runDeploymentJob:
+ * Takes an uploaded artifact, or a commit of a Git repository, all the way to a rolled-out Helm release.
+ * Every stage is recorded as a job step; when a job is resumed after a
+ * restart, image builds that already completed are not repeated.
+ */
+export async function runDeploymentJob(db: Knex, wallets: DeploymentWallets, job: any, signal?: AbortSignal): Promise<void> {
+  const deploy = await db('deploys').where({ id: job.deploy_id }).first();
+  if (!deploy) {
+    throw new Error('Deployment record no longer exists');
+  }
+  const project = await db('projects').where({ id: deploy.project_id }).first();
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  const preview = await previewForDeploy(db, deploy);
+  const deploymentId: string = deploy.deployment_uuid;
+  const done = await completedSteps(db, job.id);
+  const output = createBuildOutputRecorder(db, deploy.id);
+  const logStep = deployLogger(db, project, deploy, output);
+  const cmd: RunCmdOptions = { output, signal };
+
+  if (job.attempts > 1) {
+    await logStep(`Resuming deployment (attempt ${job.attempts})`);
+  }
+
+  const uploadDir = path.join('/tmp', `build_${deploymentId}`);
+  if (deploy.git_url) {
+    // 1) Clone the requested commit into a clean working directory.
+    // A resumed job checks out the commit the first attempt resolved, even if the branch has moved since.
+    await setDeployStatus(db, deploy.id, 'cloning');
+    await recordStep(db, job, 'clone', async () => {
+      const ref = deploy.git_commit || deploy.git_ref;
+      const commit = await checkoutGitSource({ url: deploy.git_url, ref }, uploadDir, artifactLimitsForProject(project), cmd);
+      await db('deploys').where({ id: deploy.id }).update({ git_commit: commit });
+      await logStep(`Checked out ${deploy.git_url} at ${commit}${ref !== commit ? ` (${ref})` : ''} into ${uploadDir}`);
+    });
+  } else {
+    const filePath: string = deploy.file_path;
+    if (!filePath || !fs.existsSync(filePath)) {
+      throw new Error('Uploaded artifact not found on this node');
+    }
+
+    // 1) Extract tarball into a clean working directory.
+    // Its contents were validated on upload; make sure it is still the same file.
+    await setDeployStatus(db, deploy.id, 'extracting');
+    await recordStep(db, job, 'extract', async () => {
+      if (deploy.artifact_sha256 && (await sha256File(filePath)) !== deploy.artifact_sha256) {
+        throw new Error('Uploaded artifact does not match the checksum recorded when it was validated');
+      }
+      fs.removeSync(uploadDir);
+      fs.ensureDirSync(uploadDir);
+      await runCmd(`tar -xzf ${filePath} -C ${uploadDir} --no-same-owner --no-same-permissions`, cmd);
+      await logStep(`Tarball extracted at ${uploadDir}`);
+    });
+  }
+
+  // 2) Validate deployment-info.json
+  const validated = await recordStep(db, job, 'validate', async () => {
+    const { errors, validated } = validateDeploymentInfo(uploadDir, project);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    return validated!;
+  });
+  const { carsConfig } = validated;
+
+  // 3) Build/push Docker images
+  const { frontendImage, backendImage } = deploymentImages(project, deploymentId, validated);
+  await db('deploys').where({ id: deploy.id }).update({
+    frontend_image: frontendImage,
+    backend_image: backendImage,
+    smoke_tests: JSON.stringify(carsConfig.smokeTests || [])
+  });
+
+  if (done.has('push')) {
+    // Images are tagged with the deployment ID, so a previous attempt's push is still valid.
+    await skipStep(db, job, 'push', 'Images already pushed by a previous attempt');
+    await logStep('Images already built and pushed by a previous attempt, skipping build');
+  } else {
+    const builder = getImageBuilder();
+    const run: BuildCommandRunner = (command) => runCmd(command, cmd);
+
+    // --- Frontend build ---
+    if (frontendImage) {
+      await setDeployStatus(db, deploy.id, 'building_frontend');
+      await recordStep(db, job, 'build_frontend', async () => {
+        await logStep('Building frontend image...');
+        if (isServerFrontendBuild(validated.deploymentInfo.frontend)) {
+          // Installed and built in the first stage of the image build, then served from NGINX
+          const { errors, plan } = planFrontendBuild(uploadDir, validated.deploymentInfo.frontend);
+          if (!plan) {
+            throw new Error(errors.join('; '));
+          }
+          await logStep(plan.framework === 'static'
+            ? `Packaging static frontend from ${plan.sourceDirectory}`
+            : `Building ${plan.framework} frontend from ${plan.sourceDirectory} with ${plan.packageManager}, serving ${plan.outputDirectory}`);
+          const sourceDir = path.join(uploadDir, plan.sourceDirectory);
+          writeFiles(sourceDir, plan.files);
+          await builder.build(sourceDir, frontendImage, run, { dockerfile: FRONTEND_DOCKERFILE });
+        } else {
+          const frontendDir = path.join(uploadDir, 'frontend');
+          if (!fs.existsSync(frontendDir)) {
+            throw new Error('Frontend directory not found but frontend deployment requested.');
+          }
+          writeFiles(frontendDir, renderFrontendFiles());
+
+          await builder.build(frontendDir, frontendImage, run);
+        }
+        await logStep(`Frontend image built: ${frontendImage}`);
+      });
+    }
+
+    // --- Backend build ---
+    if (backendImage) {
+      await setDeployStatus(db, deploy.id, 'building_backend');
+      await recordStep(db, job, 'build_backend', async () => {
+        await logStep('Building backend image...');
+        const backendDir = path.join(uploadDir, 'backend');
+        const customDockerfile = customBackendDockerfile(validated);
+        if (customDockerfile) {
+          // The project builds its own image; Helm still provides the env contract and probes it on BACKEND_PORT
+          await logStep(`Building backend from backend/${customDockerfile}. It must listen on port ${BACKEND_PORT} and answer GET /health/live and /health/ready`);
+          for (const warning of backendBuildWarnings(uploadDir, validated)) {
+            await logStep(`Warning: ${warning}`);
+          }
+          await builder.build(backendDir, backendImage, run, { dockerfile: customDockerfile, buildArgs: backendBuildArgs(validated) });
+        } else {
+          const locked = await lockBackendDependencies(backendDir, validated, path.join(uploadDir, 'backend-lock'), builder, run);
+          await db('deploys').where({ id: deploy.id }).update({
+            resolved_dependencies: JSON.stringify(locked.versions),
+            lockfile_source: locked.lockfile
+          });
+          await logStep(`Dependencies locked ${locked.lockfile === 'uploaded' ? 'from the uploaded package-lock.json' : 'from package.json (no package-lock.json uploaded)'}: ${Object.entries(locked.versions).map(([name, version]) => `${name}@${version}`).join(', ')}`);
+
+          const dependenciesDir = path.join(uploadDir, 'backend-deps');
+          let dependencies = await prepareDependencyLayer(db, project, backendDir, validated, locked.packageLock, dependenciesDir, builder, run, logStep);
+          await db('deploys').where({ id: deploy.id }).update({ build_cache: dependencies.hit ? 'hit' : 'miss' });
+          // Create supporting files for Docker build
+          writeFiles(backendDir, renderBackendFiles(backendDir, validated, dependencies.image));
+
+          try {
+            await builder.build(backendDir, backendImage, run);
+          } catch (error: any) {
+            if (!dependencies.hit || signal?.aborted) throw error;
+            // The cached layer may be gone from the registry: install the dependencies again and retry once
+            await logStep(`Build with cached dependency layer failed, rebuilding it: ${error.message}`);
+            await evictDependencyLayer(db, project, dependencies);
+            dependencies = await prepareDependencyLayer(db, project, backendDir, validated, locked.packageLock, dependenciesDir, builder, run, logStep);
+            await db('deploys').where({ id: deploy.id }).update({ build_cache: 'miss' });
+            writeFiles(backendDir, renderBackendFiles(backendDir, validated, dependencies.image));
+            await builder.build(backendDir, backendImage, run);
+          }
+        }
+        await logStep(`Backend image built: ${backendImage}`);
+      });
+    }
+
+    // --- Push ---
+    await setDeployStatus(db, deploy.id, 'pushing');
+    await recordStep(db, job, 'push', async () => {
+      if (frontendImage) {
+        await builder.push(frontendImage, run);
+        await logStep(`Frontend image pushed: ${frontendImage}`);
+      }
+      if (backendImage) {
+        await builder.push(backendImage, run);
+        await logStep(`Backend image pushed: ${backendImage}`);
+      }
+    });
+  }
+
+  // 4) Fund project key if it’s too low
+  await setDeployStatus(db, deploy.id, 'helm_installing');
+  await recordStep(db, job, 'fund_key', async () => {
+    const privateKey = projectPrivateKey(project);
+    const keyBalance = await findBalanceForKey(privateKey, project.network);
+    if (keyBalance < 100) {
+      try {
+        await fundKey(project.network === 'mainnet' ? wallets.mainnetWallet : wallets.testnetWallet, privateKey, 500, project.network);
+      } catch (e) {
+        logger.error(`Server could not fund a project private key on ${project.network}!`, e)
+      }
+    }
+  });
+
+  // 5) Generate Helm chart, placing the new images according to the project's release strategy
+  const helmDir = path.join(uploadDir, 'helm');
+  const plan = await planRelease(db, project, deploy, { backendImage, frontendImage }, project.deploy_strategy);
+  const valuesObj = await recordStep(db, job, 'generate_chart', async () => {
+    const values = writeHelmChart(helmDir, project, {
+      backendImage,
+      frontendImage,
+      network: carsConfig.network!,
+      env: await loadProjectEnv(db, project.id),
+      release: plan.layout,
+      preview
+    });
+    await db('deploys').where({ id: deploy.id }).update({ helm_values: JSON.stringify(values) });
+    await logStep(`Helm chart generated at ${helmDir}`);
+    return values;
+  });
+
+  // 6) Deploy with Helm, wait for the rollout and smoke test it.
+  // A staged release is only verified here; it is smoke tested once it is promoted and serving.
+  if (isStagedStrategy(plan.strategy)) {
+    await installRelease(db, job, project, deploy, helmDir, valuesObj, logStep, cmd, null, plan.slot);
+    await awaitPromotion(db, project, deploy, plan, logStep);
+  } else {
+    await installRelease(db, job, project, deploy, helmDir, valuesObj, logStep, cmd, carsConfig.smokeTests, plan.slot);
+    await completeDeploy(db, project, deploy, valuesObj, logStep);
+  }
+}
+
+/**
+ * runRollbackJob:
+ * Redeploys the images of an earlier deploy by regenerating its Helm chart
+ * from the values recorded at the time. Nothing is rebuilt.
+ */
+export async function runRollbackJob(db: Knex, _wallets: DeploymentWallets, job: any, signal?: AbortSignal): Promise<void> {
+  const deploy = await db('deploys').where({ id: job.deploy_id }).first();
+  if (!deploy) {
+    throw new Error('Deployment record no longer exists');
+  }
+  const project = await db('projects').where({ id: deploy.project_id }).first();
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  const source = await db('deploys').where({ id: deploy.rollback_of_deploy_id }).first();
+  if (!source || !source.helm_values) {
+    throw new Error('The deployment being rolled back to has no recorded Helm values');
+  }
+  const preview = await previewForDeploy(db, deploy);
+  const output = createBuildOutputRecorder(db, deploy.id);
+  const logStep = deployLogger(db, project, deploy, output);
+  const cmd: RunCmdOptions = { output, signal };
+  const sourceValues = recordedValues(source);
+  const smokeTests: DeclaredSmokeTest[] = (typeof source.smoke_tests === 'string' ? JSON.parse(source.smoke_tests) : source.smoke_tests) || [];
+  await db('deploys').where({ id: deploy.id }).update({ smoke_tests: JSON.stringify(smokeTests) });
+
+  await logStep(`Rolling back to deployment ${source.deployment_uuid}, triggered by ${deploy.creator_identity_key}`);
+
+  const workDir = path.join('/tmp', `build_${deploy.deployment_uuid}`);
+  const helmDir = path.join(workDir, 'helm');
+  const images: SlotImages = { backendImage: sourceValues.backendImage || null, frontendImage: sourceValues.frontendImage || null };
+  // Rollbacks and redeploys always replace the live release in place
+  const plan = await planRelease(db, project, deploy, images, 'rolling');
+  await setDeployStatus(db, deploy.id, 'helm_installing');
+  const valuesObj = await recordStep(db, job, 'generate_chart', async () => {
+    fs.removeSync(workDir);
+    const values = await renderRecordedChart(db, helmDir, project, sourceValues, images, plan.layout, preview);
+    await db('deploys').where({ id: deploy.id }).update({ helm_values: JSON.stringify(values) });
+    await logStep(`Helm chart regenerated from deployment ${source.deployment_uuid} at ${helmDir}`);
+    return values;
+  });
+
+  await installRelease(db, job, project, deploy, helmDir, valuesObj, logStep, cmd, smokeTests, plan.slot);
+  await completeDeploy(db, project, deploy, valuesObj, logStep);
+}
+
+/**
+ * runPromotionJob:
+ * Promotes a blue/green or canary deploy that is awaiting promotion: the Service is switched
+ * to its slot and it is smoke tested while serving. If that fails the release goes back to
+ * the previous revision, with the earlier deploy still live. Once it passes, the slot of the
+ * earlier deploy is removed.
+ */
+export async function runPromotionJob(db: Knex, _wallets: DeploymentWallets, job: any, signal?: AbortSignal): Promise<void> {
+  const deploy = await db('deploys').where({ id: job.deploy_id }).first();
+  if (!deploy) {
+    throw new Error('Deployment record no longer exists');
+  }
+  const project = await db('projects').where({ id: deploy.project_id }).first();
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  const newer = await db('deploys')
+    .where({ project_id: project.id, status: 'awaiting_promotion' })
+    .where('id', '>', deploy.id)
+    .first();
+  if (newer) {
+    throw new Error(`Deployment ${newer.deployment_uuid} has since been staged in place of this one`);
+  }
+  const live = await liveRelease(db, project.id, null, deploy.id);
+  const slot: ReleaseSlot = deploy.release_slot;
+  if (!live || live.slot === slot) {
+    throw new Error('The release this deployment was staged against is no longer live; deploy it again');
+  }
+  const output = createBuildOutputRecorder(db, deploy.id);
+  const logStep = deployLogger(db, project, deploy, output);
+  const cmd: RunCmdOptions = { output, signal };
+  const values = recordedValues(deploy);
+  const images: SlotImages = { backendImage: values.backendImage || null, frontendImage: values.frontendImage || null };
+  const smokeTests: DeclaredSmokeTest[] = (typeof deploy.smoke_tests === 'string' ? JSON.parse(deploy.smoke_tests) : deploy.smoke_tests) || [];
+
+  await logStep(`Promoting deployment ${deploy.deployment_uuid}: switching traffic from the ${live.slot} slot to the ${slot} slot`);
+
+  const workDir = path.join('/tmp', `build_${deploy.deployment_uuid}`);
+  const helmDir = path.join(workDir, 'helm');
+  await setDeployStatus(db, deploy.id, 'helm_installing');
+  const switchedValues = await recordStep(db, job, 'generate_chart', async () => {
+    fs.removeSync(workDir);
+    return renderRecordedChart(db, helmDir, project, values, images, stagedLayout(live, images, 'candidate', null), null);
+  });
+  await installRelease(db, job, project, deploy, helmDir, switchedValues, logStep, cmd, smokeTests, slot);
+
+  // Traffic is on the new slot and it passed; the old slot only costs resources from here on
+  let finalValues = switchedValues;
+  try {
+    finalValues = await recordStep(db, job, 'retire_previous_slot', async () => {
+      fs.removeSync(helmDir);
+      const retired = await renderRecordedChart(db, helmDir, project, values, images, singleSlotLayout(slot, images), null);
+      await helmUpgrade(project, retired, helmDir, cmd);
+      await logStep(`Previous release removed from the ${live.slot} slot`);
+      return retired;
+    });
+  } catch (e: any) {
+    if (signal?.aborted) throw e;
+    await logStep(`Could not remove the previous release from the ${live.slot} slot, it will be removed by the next deploy: ${e.message}`, 'error');
+  }
+  await db('deploys').where({ id: deploy.id }).update({ helm_values: JSON.stringify(finalValues) });
+  await completeDeploy(db, project, deploy, finalValues, logStep);
+}
+
+/**
+ * runAbortJob:
+ * Abandons a blue/green or canary deploy that is awaiting promotion. Its slot is removed and
+ * the live release carries on untouched.
+ */
+export async function runAbortJob(db: Knex, _wallets: DeploymentWallets, job: any, signal?: AbortSignal): Promise<void> {
+  const deploy = await db('deploys').where({ id: job.deploy_id }).first();
+  if (!deploy) {
+    throw new Error('Deployment record no longer exists');
+  }
+  const project = await db('projects').where({ id: deploy.project_id }).first();
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  const output = createBuildOutputRecorder(db, deploy.id);
+  const logStep = deployLogger(db, project, deploy, output);
+  const cmd: RunCmdOptions = { output, signal };
+  const live = await liveRelease(db, project.id, null, deploy.id);
+  if (!live) {
+    throw new Error('The project has no live release to keep');
+  }
+
+  const workDir = path.join('/tmp', `build_${deploy.deployment_uuid}`);
+  const helmDir = path.join(workDir, 'helm');
+  await setDeployStatus(db, deploy.id, 'helm_installing');
+  const valuesObj = await recordStep(db, job, 'generate_chart', async () => {
+    fs.removeSync(workDir);
+    return renderRecordedChart(db, helmDir, project, recordedValues(live.deploy), live.images, singleSlotLayout(live.slot, live.images), null);
+  });
+  await recordStep(db, job, 'helm_install', async () => {
+    await helmUpgrade(project, valuesObj, helmDir, cmd);
+  });
+  fs.removeSync(workDir);
+  await setDeployStatus(db, deploy.id, 'cancelled', { failure_reason: 'Aborted before promotion' });
+  await logStep(`Deployment aborted; traffic stays on deployment ${live.deploy.deployment_uuid} in the ${live.slot} slot`);
+}
+
+/**
+ * Regenerate a chart from the values recorded by an earlier deploy, with the current
+ * project settings and environment.
+ */
+async function renderRecordedChart(db: Knex, helmDir: string, project: any, values: Record<string, any>, images: SlotImages, release: ReleaseLayout, preview: any) {
+  return writeHelmChart(helmDir, project, {
+    ...images,
+    network: project.network,
+    values,
+    env: await loadProjectEnv(db, project.id),
+    release,
+    preview
+  });
+}
+
+/**
+ * Namespace and Helm release a rendered chart is installed as: the project's own, or its preview's.
+ */
+function releaseNames(project: any, valuesObj: Record<string, any>) {
+  return {
+    namespace: projectNamespace(project, valuesObj.preview),
+    helmReleaseName: projectReleaseName(project)
+  };
+}
+
+async function helmUpgrade(project: any, valuesObj: Record<string, any>, helmDir: string, cmd: RunCmdOptions) {
+  const { namespace, helmReleaseName } = releaseNames(project, valuesObj);
+  await runCmd(
+    `helm upgrade --install ${helmReleaseName} ${helmDir} --namespace ${namespace} --atomic --create-namespace --timeout ${helmTimeout}`,
+    { ...cmd, killGraceMs: HELM_CANCEL_GRACE_MS }
+  );
+}
+
+/**
+ * Run `helm upgrade --install` for the project release, wait for the deploy's slot to roll out,
+ * then smoke test it (unless smokeTests is null, for a release that is not serving yet).
+ * A release that fails its smoke tests is rolled back to the revision before it.
+ */
+async function installRelease(db: Knex, job: any, project: any, deploy: any, helmDir: string, valuesObj: Record<string, any>, logStep: LogStep, cmd: RunCmdOptions, smokeTests: DeclaredSmokeTest[] | null, slot: ReleaseSlot) {
+  const { namespace, helmReleaseName } = releaseNames(project, valuesObj);
+
+  // Revision running before this deploy, so a cancelled or failing upgrade can be put back
+  const previousRevision = await currentHelmRevision(helmReleaseName, namespace);
+  let smokeTestsFailed = false;
+
+  try {
+    if (valuesObj.useMySQL && previousRevision !== null) {
+      await expandMysqlVolumes(namespace, valuesObj.storage.mysqlSize, logStep, cmd);
+    }
+    if (valuesObj.useMongo && previousRevision !== null) {
+      await expandMongoVolumes(namespace, valuesObj.storage.mongoSize, logStep, cmd);
+    }
+
+    await setDeployStatus(db, deploy.id, 'helm_installing');
+    await recordStep(db, job, 'helm_install', async () => {
+      await helmUpgrade(project, valuesObj, helmDir, cmd);
+      await logStep(`Helm release ${helmReleaseName} deployed for project ${project.project_uuid}`);
+    });
+
+    await setDeployStatus(db, deploy.id, 'rolling_out');
+    await recordStep(db, job, 'rollout', async () => {
+      await runCmd(`kubectl rollout status deployment/${slotDeploymentName(helmReleaseName, slot)} -n ${namespace} --timeout=${helmTimeout}`, cmd);
+      await logStep(`Project ${project.project_uuid}, release ${deploy.deployment_uuid} rolled out successfully.`);
+    });
+
+    if (smokeTests === null) {
+      await skipStep(db, job, 'smoke_test', 'Smoke tests run once the release is promoted');
+      return;
+    }
+
+    await setDeployStatus(db, deploy.id, 'smoke_testing');
+    await recordStep(db, job, 'smoke_test', async () => {
+      const report = await runSmokeTests(smokeTestTargets(valuesObj, smokeTests), cmd.signal);
+      if (cmd.signal?.aborted) {
+        throw new Error('Deployment cancelled');
+      }
+      await db('deploys').where({ id: deploy.id }).update({
+        smoke_test_status: report.status,
+        smoke_test_results: JSON.stringify(report.results)
+      });
+      if (report.status === 'skipped') {
+        await logStep('Smoke tests skipped');
+        return;
+      }
+      for (const result of report.results) {
+        const outcome = result.statusCode !== null ? `HTTP ${result.statusCode}` : result.error;
+        await logStep(`Smoke test ${result.passed ? 'passed' : 'failed'}: ${result.url} (${outcome}, ${result.attempts} attempt(s))`, result.passed ? 'info' : 'error');
+      }
+      if (report.status === 'failed') {
+        smokeTestsFailed = true;
+        const failed = report.results.filter(r => !r.passed).map(r => r.url).join(', ');
+        throw new Error(`Smoke tests failed: ${failed}${previousRevision !== null ? `; rolling back to revision ${previousRevision}` : ''}`);
+      }
+    });
+  } catch (error) {
+    if (cmd.signal?.aborted) {
+      await restoreRelease(helmReleaseName, namespace, previousRevision, logStep, cmd.output, 'cancellation');
+    } else if (smokeTestsFailed) {
+      if (previousRevision === null) {
+        await logStep('No earlier release to roll back to; the failing release is left in place');
+      } else {
+        await restoreRelease(helmReleaseName, namespace, previousRevision, logStep, cmd.output, 'failed smoke tests');
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run a command and return its stdout, or null if it fails. For read-only queries.
+ */
+function captureCmd(command: string, args: string[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'ignore'] });
+    let stdout = '';
+    child.stdout.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
+    child.on('error', () => resolve(null));
+    child.on('close', (code) => resolve(code === 0 ? stdout : null));
+  });
+}
+
+/**
+ * The latest revision of a Helm release and its status ('deployed', 'pending-upgrade', ...), or null if it is not installed.
+ */
+async function helmReleaseStatus(releaseName: string, namespace: string): Promise<{ revision: number, status: string } | null> {
+  const status = await captureCmd('helm', ['status', releaseName, '--namespace', namespace, '-o', 'json']);
+  try {
+    if (!status) return null;
+    const release = JSON.parse(status);
+    return { revision: release.version, status: release.info?.status || 'unknown' };
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * The deployed revision of a Helm release, or null if it is not installed.
+ */
+async function currentHelmRevision(releaseName: string, namespace: string): Promise<number | null> {
+  return (await helmReleaseStatus(releaseName, namespace))?.revision ?? null;
+}
+
+/**
+ * Resize each existing claim that is smaller than `size`. Claims that do not exist are skipped.
+ * Returns whether any claim was resized.
+ */
+async function expandVolumeClaims(namespace: string, claims: string[], size: string, logStep: LogStep, cmd: RunCmdOptions): Promise<boolean> {
+  let expanded = false;
+  for (const claim of claims) {
+    const current = await captureCmd('kubectl', ['get', 'pvc', claim, '-n', namespace, '-o', 'jsonpath={.spec.resources.requests.storage}']);
+    if (!current || parseMemory(current) >= parseMemory(size)) continue;
+    await runCmd(`kubectl patch pvc ${claim} -n ${namespace} --type merge -p '{"spec":{"resources":{"requests":{"storage":"${size}"}}}}'`, cmd);
+    await logStep(`Expanding volume ${claim} from ${current} to ${size}`);
+    expanded = true;
+  }
+  return expanded;
+}
+
+/**
+ * Grow the Mongo replica set's volumes to the profile size. A StatefulSet's volume claim templates
+ * are immutable, so the claims are resized directly and the StatefulSet is deleted without its pods,
+ * letting the Helm upgrade recreate it with the new template.
+ */
+async function expandMongoVolumes(namespace: string, size: string, logStep: LogStep, cmd: RunCmdOptions) {
+  if (await expandVolumeClaims(namespace, ['mongo-data-mongo-rs-0', 'mongo-data-mongo-rs-1'], size, logStep, cmd)) {
+    await runCmd(`kubectl delete statefulset mongo-rs -n ${namespace} --cascade=orphan --ignore-not-found`, cmd);
+  }
+}
+
+/**
+ * Grow the MySQL cluster's data volumes (one per PXC member, up to three) to the profile size.
+ * The StatefulSet belongs to the Percona operator, which (with enableVolumeExpansion) recreates
+ * it with the new template once the Helm upgrade has updated the cluster's volumeSpec.
+ */
+async function expandMysqlVolumes(namespace: string, size: string, logStep: LogStep, cmd: RunCmdOptions) {
+  await expandVolumeClaims(namespace, ['datadir-mysql-pxc-0', 'datadir-mysql-pxc-1', 'datadir-mysql-pxc-2'], size, logStep, cmd);
+}
+
+/**
+ * Put a release back the way it was before a cancelled or failed install: roll back to the previous revision
+ * if this deploy got as far as creating a new one, or remove a first install that never completed.
+ * A release Helm left pending (stopped mid-upgrade or mid-rollback) is rolled back even if its revision has not moved,
+ * since Helm refuses to upgrade it again until then.
+ */
+async function restoreRelease(releaseName: string, namespace: string, previousRevision: number | null, logStep: LogStep, output: BuildOutputRecorder | undefined, reason: string) {
+  const release = await helmReleaseStatus(releaseName, namespace);
+  if (release) {
+    await logStep(`Release ${releaseName} is at revision ${release.revision} (${release.status}) after ${reason}`);
+  }
+  const restoreCommand = previousRevision === null
+    ? `helm uninstall ${releaseName} --namespace ${namespace}`
+    : `helm rollback ${releaseName} ${previousRevision} --namespace ${namespace} --wait`;
+  try {
+    if (previousRevision === null) {
+      if (release !== null) {
+        await runCmd(restoreCommand, { output });
+        await logStep(`Removed partially installed release ${releaseName}`);
+      }
+    } else if (release?.revision !== previousRevision || isPendingHelmStatus(release.status)) {
+      await runCmd(restoreCommand, { output });
+      await logStep(`Release ${releaseName} restored to revision ${previousRevision}`);
+    }
+  } catch (e: any) {
+    await logStep(`Failed to restore release ${releaseName} after ${reason}: ${e.message}`, 'error');
+  }
+
+  const restored = await helmReleaseStatus(releaseName, namespace);
+  if (restored && isPendingHelmStatus(restored.status)) {
+    await logStep(`Release ${releaseName} is still ${restored.status}; the next deploy will fail until it is restored with \`${restoreCommand}\``, 'error');
+  }
+}
+
+function isPendingHelmStatus(status: string): boolean {
+  return status.startsWith('pending-');
+}
+
+/**
+ * Leave a verified blue/green or canary deploy running next to the live release until it is promoted or aborted.
+ */
+async function awaitPromotion(db: Knex, project: any, deploy: any, plan: ReleasePlan, logStep: LogStep) {
+  await supersedeCandidates(db, project.id, deploy);
+  await setDeployStatus(db, deploy.id, 'awaiting_promotion', { failure_reason: null });
+  const traffic = plan.layout.canary
+    ? `it receives ${plan.layout.canary.weight}% of traffic`
+    : 'it receives no traffic yet';
+  await logStep(`Release ${deploy.deployment_uuid} verified in the ${plan.slot} slot; ${traffic}. Promote or abort it.`);
+}
+
+/**
+ * Mark the deploy succeeded and log its final URLs.
+ */
+async function completeDeploy(db: Knex, project: any, deploy: any, valuesObj: Record<string, any>, logStep: LogStep) {
+  if (!deploy.preview_id) {
+    await supersedeCandidates(db, project.id, deploy);
+  }
+  const frontendEnabled = Boolean(valuesObj.frontendImage);
+  const backendEnabled = Boolean(valuesObj.backendImage);
+
+  const urls: Record<string, string> = {};
+  if (frontendEnabled) {
+    urls.frontend = valuesObj.ingressHostFrontend;
+    if (valuesObj.ingressCustomFrontend) urls.frontendCustom = valuesObj.ingressCustomFrontend;
+  }
+  if (backendEnabled) {
+    urls.backend = valuesObj.ingressHostBackend;
+    if (valuesObj.ingressCustomBackend) urls.backendCustom = valuesObj.ingressCustomBackend;
+  }
+  await setDeployStatus(db, deploy.id, 'succeeded', { urls: JSON.stringify(urls), failure_reason: null });
+
+  // Log final URLs
+  if (frontendEnabled) {
+    await logStep(`Frontend URL: ${valuesObj.ingressHostFrontend}`);
+  }
+  if (backendEnabled) {
+    await logStep(`Backend URL: ${valuesObj.ingressHostBackend}`);
+  }
+
+  let completionMessage = 'Deployment completed successfully';
+  if (frontendEnabled) completionMessage += ` frontend=${valuesObj.ingressHostFrontend}`;
+  if (backendEnabled) completionMessage += ` backend=${valuesObj.ingressHostBackend}`;
+  if (frontendEnabled && valuesObj.ingressCustomFrontend) {
+    completionMessage += ` frontendCustom=${valuesObj.ingressCustomFrontend}`;
+  }
+  if (backendEnabled && valuesObj.ingressCustomBackend) {
+    completionMessage += ` backendCustom=${valuesObj.ingressCustomBackend}`;
+  }
+  await logStep(completionMessage);
+}
@@ -0,0 +1,43 @@
+import type { Knex } from 'knex';
+
+/**
+ * Lifecycle of a single deploy, in the order a successful deploy moves through them.
+ * Deploys from a Git source are cloned rather than extracted.
+ * succeeded, failed and cancelled are terminal. Blue/green and canary deploys wait in
+ * awaiting_promotion once verified, and go through the install statuses again when promoted.
+ */
+export const DEPLOY_STATUSES = [
+    'queued',
+    'cloning',
+    'extracting',
+    'building_frontend',
+    'building_backend',
+    'pushing',
+    'helm_installing',
+    'rolling_out',
+    'smoke_testing',
+    'awaiting_promotion',
+    'succeeded',
+    'failed',
+    'cancelled'
+] as const;
+
+export type DeployStatus = typeof DEPLOY_STATUSES[number];
+
+export const TERMINAL_DEPLOY_STATUSES: DeployStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export function isTerminalDeployStatus(status: string | null | undefined): boolean {
+    return TERMINAL_DEPLOY_STATUSES.includes(status as DeployStatus);
+}
+
+/**
+ * Move a deploy to a new status, optionally recording extra columns
+ * (failure_reason, images, urls) in the same update.
+ */
+export async function setDeployStatus(db: Knex, deployId: number, status: DeployStatus, extra: Record<string, any> = {}) {
+    await db('deploys').where({ id: deployId }).update({
+        ...extra,
+        status,
+        status_updated_at: new Date()
+    });
+}
@@ -0,0 +1,304 @@
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  CARSConfig,
+  CARSConfigInfo,
+  generateDependenciesDockerfile,
+  generateDockerfile,
+  generateIndexTs,
+  generateLockDockerfile,
+  generatePackageJson,
+  generateTsConfig,
+  generateWaitScript,
+} from '../utils';
+import { validateSmokeTests } from './smokeTests';
+import { FRONTEND_NGINX_CONF, isServerFrontendBuild, planFrontendBuild } from './frontendBuild';
+
+const EXACT_VERSION_PATTERN = /^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$/;
+const IMAGE_REFERENCE_PATTERN = /^[a-z0-9][a-z0-9._\-/:@]{0,254}$/i;
+const BUILD_ARG_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+const MAX_BUILD_ARGS = 32;
+
+// The port CARS routes backend traffic and health checks (/health/live, /health/ready) to
+export const BACKEND_PORT = 8080;
+
+export interface ValidatedDeployment {
+  deploymentInfo: CARSConfigInfo;
+  carsConfig: CARSConfig;
+  frontendEnabled: boolean;
+  backendEnabled: boolean;
+  enableContracts: boolean;
+}
+
+/**
+ * Checks the deployment-info.json of an extracted artifact against the project.
+ * Collects every problem it can find rather than stopping at the first, so a dry run can report them all.
+ */
+export function validateDeploymentInfo(uploadDir: string, project: any): { errors: string[], validated?: ValidatedDeployment } {
+  const deploymentInfoPath = path.join(uploadDir, 'deployment-info.json');
+  if (!fs.existsSync(deploymentInfoPath)) {
+    return { errors: ['deployment-info.json not found in tarball.'] };
+  }
+
+  let deploymentInfo: CARSConfigInfo;
+  try {
+    deploymentInfo = JSON.parse(fs.readFileSync(deploymentInfoPath, 'utf-8'));
+  } catch (e: any) {
+    return { errors: [`deployment-info.json is not valid JSON: ${e.message}`] };
+  }
+
+  const errors: string[] = [];
+  if (deploymentInfo.schema !== 'bsv-app') {
+    errors.push('Invalid schema in deployment-info.json');
+  }
+
+  // Check for matching CARS config
+  const carsConfig: CARSConfig | undefined = deploymentInfo.configs?.find(
+    (c: CARSConfig) =>
+      c.provider === 'CARS' && c.projectID === project.project_uuid
+  );
+  let frontendEnabled = false;
+  let backendEnabled = false;
+  if (!carsConfig || !carsConfig.projectID) {
+    errors.push('No matching CARS config or projectID in deployment-info.json');
+  } else {
+    if (carsConfig.network !== project.network) {
+      errors.push(`Network mismatch: Project is on ${project.network} but deployment config specifies ${carsConfig.network}`);
+    }
+
+    // Determine whether we are deploying a frontend and/or backend
+    const deployTargets = carsConfig.deploy || [];
+    backendEnabled = deployTargets.includes('backend');
+    frontendEnabled = deployTargets.includes('frontend');
+    if (!frontendEnabled && !backendEnabled) {
+      errors.push(`No valid deploy targets found (must include "frontend" and/or "backend").`);
+    }
+    errors.push(...validateSmokeTests(carsConfig.smokeTests, project));
+  }
+
+  if (backendEnabled) {
+    errors.push(...validateBackendBuild(uploadDir, deploymentInfo.backend));
+  }
+  if (frontendEnabled && isServerFrontendBuild(deploymentInfo.frontend)) {
+    errors.push(...planFrontendBuild(uploadDir, deploymentInfo.frontend).errors);
+  }
+
+  // Check if sCrypt contract compilation is needed
+  let enableContracts = false;
+  if (deploymentInfo.contracts && deploymentInfo.contracts.language === 'sCrypt') {
+    enableContracts = true;
+  } else if (
+    deploymentInfo.contracts &&
+    deploymentInfo.contracts.language &&
+    deploymentInfo.contracts.language !== 'sCrypt'
+  ) {
+    errors.push(`BSV Contract language not supported: ${deploymentInfo.contracts.language}`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return { errors, validated: { deploymentInfo, carsConfig: carsConfig!, frontendEnabled, backendEnabled, enableContracts } };
+}
+
+/**
+ * Ports the final stage of a Dockerfile EXPOSEs.
+ */
+export function exposedPorts(dockerfile: string): number[] {
+  const instructions = dockerfile
+    .replace(/\\\r?\n/g, ' ')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+  const finalStage = instructions.slice(instructions.map(line => /^FROM\s/i.test(line)).lastIndexOf(true) + 1);
+  return finalStage
+    .filter(line => /^EXPOSE\s/i.test(line))
+    .flatMap(line => line.split(/\s+/).slice(1))
+    .map(port => parseInt(port, 10))
+    .filter(port => Number.isInteger(port));
+}
+
+/**
+ * Checks the `backend` section of deployment-info.json: an overlay-express pin, a custom Dockerfile
+ * or base image, and build arguments.
+ */
+function validateBackendBuild(uploadDir: string, backend: CARSConfigInfo['backend']): string[] {
+  if (backend === undefined) return [];
+  if (!backend || typeof backend !== 'object') {
+    return ['backend in deployment-info.json must be an object'];
+  }
+  const errors: string[] = [];
+  const { overlayExpressVersion, dockerfile, baseImage, buildArgs } = backend;
+  if (overlayExpressVersion !== undefined && (typeof overlayExpressVersion !== 'string' || !EXACT_VERSION_PATTERN.test(overlayExpressVersion))) {
+    errors.push('backend.overlayExpressVersion in deployment-info.json must be an exact version such as "2.2.0"');
+  }
+  if (baseImage !== undefined && (typeof baseImage !== 'string' || !IMAGE_REFERENCE_PATTERN.test(baseImage))) {
+    errors.push('backend.baseImage in deployment-info.json must be an image reference such as "docker.io/node:20-bookworm"');
+  }
+  if (dockerfile !== undefined) {
+    if (baseImage !== undefined || overlayExpressVersion !== undefined) {
+      errors.push('backend.dockerfile replaces the generated OverlayExpress image, so it cannot be combined with backend.baseImage or backend.overlayExpressVersion');
+    }
+    const normalized = typeof dockerfile === 'string' ? path.posix.normalize(dockerfile) : '';
+    if (!normalized || path.posix.isAbsolute(normalized) || normalized.split('/').includes('..')) {
+      errors.push('backend.dockerfile in deployment-info.json must be a path inside the backend directory');
+    } else {
+      const dockerfilePath = path.join(uploadDir, 'backend', normalized);
+      if (!fs.existsSync(dockerfilePath) || !fs.statSync(dockerfilePath).isFile()) {
+        errors.push(`backend.dockerfile not found: backend/${normalized}`);
+      }
+    }
+  }
+  if (buildArgs !== undefined) {
+    if (!buildArgs || typeof buildArgs !== 'object' || Array.isArray(buildArgs)) {
+      errors.push('backend.buildArgs in deployment-info.json must be an object of names to string values');
+    } else {
+      const entries = Object.entries(buildArgs);
+      if (entries.length > MAX_BUILD_ARGS) {
+        errors.push(`backend.buildArgs can have at most ${MAX_BUILD_ARGS} entries`);
+      }
+      for (const [name, value] of entries) {
+        if (!BUILD_ARG_NAME_PATTERN.test(name)) {
+          errors.push(`Invalid build argument name: ${name}`);
+        } else if (typeof value !== 'string' || value.length > 4096) {
+          errors.push(`Build argument ${name} must be a string of at most 4096 characters`);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Advisory checks on a validated deployment that never fail it. EXPOSE only documents a port,
+ * so a custom Dockerfile without `EXPOSE 8080` may still listen there; it is warned about, not rejected.
+ */
+export function backendBuildWarnings(uploadDir: string, validated: ValidatedDeployment): string[] {
+  const dockerfile = customBackendDockerfile(validated);
+  if (!validated.backendEnabled || !dockerfile) return [];
+  if (exposedPorts(fs.readFileSync(path.join(uploadDir, 'backend', dockerfile), 'utf-8')).includes(BACKEND_PORT)) return [];
+  return [`backend/${dockerfile} does not EXPOSE ${BACKEND_PORT} in its final stage. The backend must still listen on port ${BACKEND_PORT}: CARS sends backend traffic and health checks (GET /health/live, /health/ready) there`];
+}
+
+/**
+ * Path of the backend's own Dockerfile, relative to the backend directory, or null when CARS generates the image.
+ */
+export function customBackendDockerfile(validated: ValidatedDeployment): string | null {
+  const dockerfile = validated.deploymentInfo.backend?.dockerfile;
+  return dockerfile ? path.posix.normalize(dockerfile) : null;
+}
+
+export function backendBuildArgs(validated: ValidatedDeployment): Record<string, string> {
+  return validated.deploymentInfo.backend?.buildArgs || {};
+}
+
+/**
+ * Registry tags for a deploy's images; null for a target that is not being deployed.
+ */
+export function deploymentImages(project: any, deploymentId: string, validated: ValidatedDeployment) {
+  const registryHost = process.env.DOCKER_REGISTRY || 'cars-registry:5000';
+  return {
+    frontendImage: validated.frontendEnabled ? `${registryHost}/cars-project-${project.project_uuid}/frontend:${deploymentId}` : null,
+    backendImage: validated.backendEnabled ? `${registryHost}/cars-project-${project.project_uuid}/backend:${deploymentId}` : null
+  };
+}
+
+/**
+ * Registry tag for a project's backend dependency layer, named after the hash of its inputs.
+ */
+export function dependenciesImageName(project: any, cacheKey: string) {
+  const registryHost = process.env.DOCKER_REGISTRY || 'cars-registry:5000';
+  return `${registryHost}/cars-project-${project.project_uuid}/backend-deps:${cacheKey.slice(0, 32)}`;
+}
+
+/**
+ * Files added to the frontend directory to serve it as static files from NGINX.
+ */
+export function renderFrontendFiles(): Record<string, string> {
+  return {
+    // Minimal NGINX configuration for static serving
+    'nginx.conf': FRONTEND_NGINX_CONF,
+    // Dockerfile for serving static files
+    'Dockerfile': `FROM docker.io/nginx:alpine
+COPY nginx.conf /etc/nginx/conf.d/default.conf
+COPY . /usr/share/nginx/html
+EXPOSE 80`
+  };
+}
+
+/**
+ * The package.json the backend image is built with, generated from the backend's own dependencies.
+ * Throws if the backend directory or its package.json is missing.
+ */
+function renderBackendPackageJson(backendDir: string, validated: ValidatedDeployment): string {
+  if (!fs.existsSync(backendDir)) {
+    throw new Error('Backend directory not found but backend deployment requested.');
+  }
+
+  const backendPackageJsonPath = path.join(backendDir, 'package.json');
+  if (!fs.existsSync(backendPackageJsonPath)) {
+    throw new Error('Backend directory does not contain a package.json file.');
+  }
+
+  const backendPackageJson = JSON.parse(
+    fs.readFileSync(backendPackageJsonPath, 'utf8')
+  );
+  return JSON.stringify(generatePackageJson(backendPackageJson.dependencies as Record<string, string>, validated.deploymentInfo.backend?.overlayExpressVersion), null, 2);
+}
+
+/**
+ * Files for the image that locks the backend's dependencies: the generated package.json,
+ * the uploaded package-lock.json if there is one, and a Dockerfile that locks them.
+ * Throws if the backend directory or its package.json is missing.
+ */
+export function renderBackendLockFiles(backendDir: string, validated: ValidatedDeployment): Record<string, string> {
+  const packageJson = renderBackendPackageJson(backendDir, validated);
+  const lockfilePath = path.join(backendDir, 'package-lock.json');
+  const files: Record<string, string> = {
+    'Dockerfile': generateLockDockerfile(fs.existsSync(lockfilePath), validated.deploymentInfo.backend?.baseImage, Object.keys(backendBuildArgs(validated))),
+    'package.json': packageJson
+  };
+  if (fs.existsSync(lockfilePath)) {
+    files['package-lock.json'] = fs.readFileSync(lockfilePath, 'utf8');
+  }
+  return files;
+}
+
+/**
+ * Files for the backend's dependency layer image: the generated package.json, the `lockfile`
+ * produced from renderBackendLockFiles, and a Dockerfile that installs exactly what it locks.
+ * With a null `lockfile` (nothing locked yet, as in a dry run) the lockfile is left out.
+ * Throws if the backend directory or its package.json is missing.
+ */
+export function renderBackendDependencyFiles(backendDir: string, validated: ValidatedDeployment, lockfile: string | null): Record<string, string> {
+  const files: Record<string, string> = {
+    'Dockerfile': generateDependenciesDockerfile(true, validated.deploymentInfo.backend?.baseImage, Object.keys(backendBuildArgs(validated))),
+    'package.json': renderBackendPackageJson(backendDir, validated)
+  };
+  if (lockfile !== null) {
+    files['package-lock.json'] = lockfile;
+  }
+  return files;
+}
+
+/**
+ * Files generated into the backend directory to build the OverlayExpress image.
+ * With a `dependenciesImage` (built from renderBackendDependencyFiles), the image is built on top of it
+ * rather than installing dependencies itself.
+ * Throws if the backend directory or its package.json is missing.
+ */
+export function renderBackendFiles(backendDir: string, validated: ValidatedDeployment, dependenciesImage?: string): Record<string, string> {
+  return {
+    'Dockerfile': generateDockerfile(validated.enableContracts, dependenciesImage),
+    'wait-for-services.sh': generateWaitScript(),
+    'tsconfig.json': generateTsConfig(),
+    'package.json': renderBackendPackageJson(backendDir, validated),
+    'index.ts': generateIndexTs(validated.deploymentInfo)
+  };
+}
+
+export function writeFiles(dir: string, files: Record<string, string>) {
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+}
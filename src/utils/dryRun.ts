@@ -0,0 +1,195 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { execFile } from 'child_process';
+import type { Knex } from 'knex';
+import logger from '../logger';
+import { artifactLimitsForProject, inspectArtifact } from './artifact';
+import {
+  backendBuildWarnings,
+  customBackendDockerfile,
+  dependenciesImageName,
+  deploymentImages,
+  renderBackendDependencyFiles,
+  renderBackendFiles,
+  renderBackendLockFiles,
+  renderFrontendFiles,
+  validateDeploymentInfo
+} from './deploymentFiles';
+import { isServerFrontendBuild, planFrontendBuild } from './frontendBuild';
+import { writeHelmChart } from './helmChart';
+import { setDeployStatus } from './deployStatus';
+import { listProjectEnv } from './projectEnv';
+import { dbCredentialsForProject } from './dbCredentials';
+import { projectAdminToken, projectPrivateKey } from './encryption';
+import { previewForDeploy, projectNamespace, projectReleaseName } from './previews';
+
+export interface DryRunResult {
+  dryRun: true;
+  deploymentId: string;
+  valid: boolean;
+  errors: string[];
+  // Advisory findings that would not stop the deploy
+  warnings: string[];
+  // Files that would be generated for the image builds, keyed by path within the artifact
+  files: Record<string, string>;
+  // The rendered Helm chart, keyed by path within the chart
+  chart: Record<string, string>;
+  // Output of `helm template` for the chart
+  manifests: string | null;
+}
+
+function readTree(dir: string, prefix = ''): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      Object.assign(files, readTree(path.join(dir, entry.name), relative));
+    } else {
+      files[relative] = fs.readFileSync(path.join(dir, entry.name), 'utf8');
+    }
+  }
+  return files;
+}
+
+function helmTemplate(releaseName: string, helmDir: string, namespace: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('helm', ['template', releaseName, helmDir, '--namespace', namespace], { maxBuffer: 32 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error((stderr || error.message).trim()));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+/**
+ * Rendered output embeds the project's key, admin token, ARC API key and database passwords
+ * (in Secrets, some base64-encoded); none of that is returned.
+ */
+function redactSecrets(project: any, text: string): string {
+  const credentials = dbCredentialsForProject(project);
+  const secrets = [
+    projectPrivateKey(project),
+    projectAdminToken(project),
+    process.env.TAAL_API_KEY_MAIN,
+    process.env.TAAL_API_KEY_TEST,
+    ...Object.entries(credentials).filter(([field]) => /(Password|Key)$/.test(field)).map(([, value]) => value)
+  ].filter((secret): secret is string => typeof secret === 'string' && secret.length >= 8);
+  const forms = secrets.flatMap(secret => [secret, Buffer.from(secret, 'utf8').toString('base64')]);
+  return forms.reduce((redacted, secret) => redacted.split(secret).join('<redacted>'), text);
+}
+
+/**
+ * runDryRun:
+ * Runs the checks and generation steps of a deployment against an uploaded artifact
+ * (artifact validation, deployment-info.json validation, backend/frontend file generation
+ * and Helm chart rendering) without building images or touching the cluster.
+ * The artifact and working directory are removed afterwards.
+ */
+export async function runDryRun(db: Knex, deploy: any, project: any, filePath: string): Promise<DryRunResult> {
+  const deploymentId: string = deploy.deployment_uuid;
+  const workDir = path.join('/tmp', `dryrun_${deploymentId}`);
+  const result: DryRunResult = { dryRun: true, deploymentId, valid: false, errors: [], warnings: [], files: {}, chart: {}, manifests: null };
+
+  try {
+    // 1) The artifact itself
+    try {
+      await inspectArtifact(filePath, artifactLimitsForProject(project));
+    } catch (e: any) {
+      result.errors.push(`Artifact rejected: ${e.message}`);
+      return result;
+    }
+
+    fs.removeSync(workDir);
+    fs.ensureDirSync(workDir);
+    await new Promise<void>((resolve, reject) => {
+      execFile('tar', ['-xzf', filePath, '-C', workDir, '--no-same-owner', '--no-same-permissions'], (error) => error ? reject(error) : resolve());
+    });
+
+    // 2) deployment-info.json
+    const { errors, validated } = validateDeploymentInfo(workDir, project);
+    result.errors.push(...errors);
+    if (!validated) {
+      return result;
+    }
+    result.warnings.push(...backendBuildWarnings(workDir, validated));
+
+    // 3) Generated build files
+    if (validated.frontendEnabled && isServerFrontendBuild(validated.deploymentInfo.frontend)) {
+      const { plan } = planFrontendBuild(workDir, validated.deploymentInfo.frontend);
+      for (const [name, content] of Object.entries(plan!.files)) {
+        result.files[`${plan!.sourceDirectory}/${name}`] = content;
+      }
+    } else if (validated.frontendEnabled) {
+      if (!fs.existsSync(path.join(workDir, 'frontend'))) {
+        result.errors.push('Frontend directory not found but frontend deployment requested.');
+      } else {
+        for (const [name, content] of Object.entries(renderFrontendFiles())) {
+          result.files[`frontend/${name}`] = content;
+        }
+      }
+    }
+    const customDockerfile = customBackendDockerfile(validated);
+    if (validated.backendEnabled && customDockerfile) {
+      // Built as uploaded; shown so the dry run covers what will be built
+      result.files[`backend/${customDockerfile}`] = redactSecrets(project, fs.readFileSync(path.join(workDir, 'backend', customDockerfile), 'utf-8'));
+    } else if (validated.backendEnabled) {
+      try {
+        const backendDir = path.join(workDir, 'backend');
+        // Nothing is locked in a dry run: the dependency layer is shown without the package-lock.json the
+        // lock step would produce, and its tag (a hash that covers that lockfile) is left as a placeholder
+        const dependenciesImage = dependenciesImageName(project, '<dependency cache key>');
+        for (const [name, content] of Object.entries(renderBackendFiles(backendDir, validated, dependenciesImage))) {
+          result.files[`backend/${name}`] = redactSecrets(project, content);
+        }
+        for (const [name, content] of Object.entries(renderBackendLockFiles(backendDir, validated))) {
+          result.files[`backend-lock/${name}`] = redactSecrets(project, content);
+        }
+        for (const [name, content] of Object.entries(renderBackendDependencyFiles(backendDir, validated, null))) {
+          result.files[`backend-deps/${name}`] = redactSecrets(project, content);
+        }
+      } catch (e: any) {
+        result.errors.push(e.message);
+      }
+    }
+
+    // 4) Helm chart and the manifests it renders to
+    const helmDir = path.join(workDir, 'helm');
+    try {
+      const { frontendImage, backendImage } = deploymentImages(project, deploymentId, validated);
+      // Project variables are rendered by name only
+      const env: Record<string, string> = {};
+      for (const { name } of await listProjectEnv(db, project.id)) {
+        env[name] = '<redacted>';
+      }
+      const preview = await previewForDeploy(db, deploy);
+      writeHelmChart(helmDir, project, { frontendImage, backendImage, network: validated.carsConfig.network!, env, preview });
+      for (const [name, content] of Object.entries(readTree(helmDir))) {
+        result.chart[name] = redactSecrets(project, content);
+      }
+      const namespace = projectNamespace(project, preview?.name);
+      result.manifests = redactSecrets(project, await helmTemplate(projectReleaseName(project), helmDir, namespace));
+    } catch (e: any) {
+      result.errors.push(`Helm chart could not be rendered: ${e.message}`);
+    }
+
+    return result;
+  } finally {
+    result.valid = result.errors.length === 0;
+    fs.removeSync(workDir);
+    fs.removeSync(filePath);
+
+    const message = (result.valid
+      ? 'Dry run completed: no problems found'
+      : `Dry run found ${result.errors.length} problem(s): ${result.errors.join('; ')}`)
+      + (result.warnings.length > 0 ? `; ${result.warnings.length} warning(s): ${result.warnings.join('; ')}` : '');
+    await db('logs').insert({
+      project_id: project.id,
+      deploy_id: deploy.id,
+      message
+    });
+    await setDeployStatus(db, deploy.id, result.valid ? 'succeeded' : 'failed', { failure_reason: result.valid ? null : result.errors.join('; ') });
+    logger.info({ deploymentId, valid: result.valid }, message);
+  }
+}
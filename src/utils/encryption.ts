@@ -0,0 +1,133 @@
+/**
+ * Envelope encryption for values stored in the node's database. Each value is
+ * sealed with its own random data key (AES-256-GCM), and the data key is sealed
+ * with the node master key, so the master key never touches the data directly.
+ *
+ * Sealed values are self-describing strings:
+ *   enc:v1:<master key id>:<wrapped data key>:<sealed value>
+ * where both sealed parts are base64 of iv (12 bytes) + auth tag (16 bytes) + ciphertext.
+ */
+import crypto from 'crypto';
+
+const PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+let cachedMasterKey: Buffer | null = null;
+
+/**
+ * Parses a 32-byte key given as 64 hex characters or base64.
+ */
+export function parseMasterKey(value: string): Buffer {
+    const trimmed = value.trim();
+    const key = /^[0-9a-fA-F]{64}$/.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+    if (key.length !== 32) {
+        throw new Error('Master key must be 32 bytes, given as 64 hex characters or base64');
+    }
+    return key;
+}
+
+/**
+ * The node master key from CARS_MASTER_KEY. It is never derived from another secret,
+ * so a node without one refuses to start rather than sealing values under a guessable key.
+ */
+export function getMasterKey(): Buffer {
+    if (cachedMasterKey) return cachedMasterKey;
+    if (!process.env.CARS_MASTER_KEY) {
+        throw new Error(
+            'CARS_MASTER_KEY is not configured. Generate one with `openssl rand -hex 32`, set it in the node environment '
+            + '(.env or docker-compose.yml), keep a copy somewhere safe and start the node again. '
+            + 'See "Upgrading an Existing Node" in the README.'
+        );
+    }
+    cachedMasterKey = parseMasterKey(process.env.CARS_MASTER_KEY);
+    return cachedMasterKey;
+}
+
+/**
+ * Short identifier for a master key, recorded in each sealed value so values sealed
+ * under a different key are recognised rather than failing to authenticate.
+ */
+export function masterKeyId(key: Buffer): string {
+    return crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+    const raw = Buffer.from(sealed, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, raw.subarray(0, IV_BYTES));
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export function isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+/**
+ * Seals a value under a fresh data key wrapped by the master key.
+ */
+export function encryptValue(plaintext: string, key: Buffer = getMasterKey()): string {
+    const dataKey = crypto.randomBytes(32);
+    return `${PREFIX}${masterKeyId(key)}:${seal(key, dataKey)}:${seal(dataKey, Buffer.from(plaintext, 'utf8'))}`;
+}
+
+/**
+ * Opens a value sealed by encryptValue.
+ */
+export function decryptValue(sealed: string, key: Buffer = getMasterKey()): string {
+    if (!isEncrypted(sealed)) {
+        throw new Error('Value is not encrypted');
+    }
+    const [keyId, wrappedKey, body] = sealed.slice(PREFIX.length).split(':');
+    if (!wrappedKey || !body) {
+        throw new Error('Malformed encrypted value');
+    }
+    if (keyId !== masterKeyId(key)) {
+        throw new Error(`Value was encrypted under a different master key (${keyId})`);
+    }
+    return open(open(key, wrappedKey), body).toString('utf8');
+}
+
+/**
+ * Moves a sealed value to a new master key. Only the data key is re-wrapped; the
+ * sealed value itself is untouched.
+ */
+export function rewrapValue(sealed: string, oldKey: Buffer, newKey: Buffer): string {
+    const [keyId, wrappedKey, body] = sealed.slice(PREFIX.length).split(':');
+    if (keyId === masterKeyId(newKey)) {
+        return sealed;
+    }
+    if (keyId !== masterKeyId(oldKey)) {
+        throw new Error(`Value was encrypted under an unknown master key (${keyId})`);
+    }
+    return `${PREFIX}${masterKeyId(newKey)}:${seal(newKey, open(oldKey, wrappedKey))}:${body}`;
+}
+
+/**
+ * Decrypts a column that may still hold a plaintext value from before it was encrypted.
+ */
+export function revealValue(value: string | null | undefined): string | null {
+    if (value === null || value === undefined) return null;
+    return isEncrypted(value) ? decryptValue(value) : value;
+}
+
+/**
+ * The project's overlay signing key, decrypted.
+ */
+export function projectPrivateKey(project: any): string {
+    return revealValue(project.private_key)!;
+}
+
+/**
+ * The bearer token for the project's OverlayExpress admin routes, decrypted.
+ */
+export function projectAdminToken(project: any): string | null {
+    return revealValue(project.admin_bearer_token);
+}
@@ -0,0 +1,183 @@
+/**
+ * Server-side frontend builds. With `frontend.serverBuild` in deployment-info.json, the frontend is
+ * built on the node from `frontend.sourceDirectory` instead of being uploaded prebuilt in `frontend/`.
+ * The framework is detected from the source's package.json; the install and build run in the first
+ * stage of a multi-stage image build, so they are isolated from the node, and only the build output
+ * is packaged into the NGINX image.
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import type { CARSConfigInfo } from '../utils';
+
+export const FRONTEND_LANGUAGES = ['react', 'vite', 'vue', 'next', 'javascript', 'typescript', 'html', 'static'] as const;
+
+// Languages that are served as they are, without an install or build
+const STATIC_LANGUAGES = ['html', 'static'];
+
+export type FrontendFramework = 'vite' | 'create-react-app' | 'next-export' | 'vue-cli' | 'npm-build' | 'static';
+
+const DEFAULT_OUTPUT_DIRECTORIES: Record<FrontendFramework, string> = {
+    'vite': 'dist',
+    'create-react-app': 'build',
+    'next-export': 'out',
+    'vue-cli': 'dist',
+    'npm-build': 'dist',
+    'static': '.'
+};
+
+// Names of the generated files, chosen so they do not clash with the project's own
+export const FRONTEND_DOCKERFILE = 'Dockerfile.cars';
+const FRONTEND_NGINX_CONF_FILE = '.cars-nginx.conf';
+
+/**
+ * Minimal NGINX configuration for serving a frontend as static files.
+ */
+export const FRONTEND_NGINX_CONF = `server {
+    listen 80;
+    server_name localhost;
+    root /usr/share/nginx/html;
+    location / {
+        try_files $uri /404.html /index.html;
+    }
+}`;
+
+export interface FrontendBuildPlan {
+    framework: FrontendFramework;
+    // Relative to the artifact root
+    sourceDirectory: string;
+    // Relative to the source directory
+    outputDirectory: string;
+    packageManager: 'npm' | 'yarn' | 'pnpm' | null;
+    // Generated files to write into the source directory; the image is built from FRONTEND_DOCKERFILE
+    files: Record<string, string>;
+}
+
+export function isServerFrontendBuild(frontend: CARSConfigInfo['frontend']): boolean {
+    return frontend?.serverBuild === true;
+}
+
+function safeRelativePath(value: unknown): string | null {
+    // Also ends up in the generated Dockerfile, so only plain path characters are accepted
+    if (typeof value !== 'string' || !/^[A-Za-z0-9._\/-]+$/.test(value)) return null;
+    const normalized = path.posix.normalize(value).replace(/\/+$/, '') || '.';
+    if (path.posix.isAbsolute(normalized) || normalized.split('/').includes('..')) return null;
+    return normalized;
+}
+
+function detectFramework(packageJson: any): FrontendFramework {
+    const deps = { ...(packageJson.dependencies || {}), ...(packageJson.devDependencies || {}) };
+    if (deps['vite']) return 'vite';
+    if (deps['react-scripts']) return 'create-react-app';
+    if (deps['next']) return 'next-export';
+    if (deps['@vue/cli-service']) return 'vue-cli';
+    return 'npm-build';
+}
+
+function detectPackageManager(sourceDir: string): 'npm' | 'yarn' | 'pnpm' {
+    if (fs.existsSync(path.join(sourceDir, 'pnpm-lock.yaml'))) return 'pnpm';
+    if (fs.existsSync(path.join(sourceDir, 'yarn.lock'))) return 'yarn';
+    return 'npm';
+}
+
+function installCommand(packageManager: 'npm' | 'yarn' | 'pnpm', sourceDir: string): string {
+    switch (packageManager) {
+        case 'pnpm':
+            return 'corepack enable && pnpm install --frozen-lockfile';
+        case 'yarn':
+            return 'corepack enable && yarn install --frozen-lockfile';
+        default:
+            return fs.existsSync(path.join(sourceDir, 'package-lock.json')) ? 'npm ci' : 'npm install';
+    }
+}
+
+function generateFrontendDockerfile(plan: Omit<FrontendBuildPlan, 'files'>, install: string | null): string {
+    const serve = `FROM docker.io/nginx:alpine
+COPY ${FRONTEND_NGINX_CONF_FILE} /etc/nginx/conf.d/default.conf`;
+    if (plan.framework === 'static') {
+        return `${serve}
+COPY . /usr/share/nginx/html
+RUN rm -f /usr/share/nginx/html/${FRONTEND_DOCKERFILE} /usr/share/nginx/html/${FRONTEND_NGINX_CONF_FILE}
+EXPOSE 80`;
+    }
+    const out = plan.outputDirectory;
+    return `FROM docker.io/node:22-alpine AS build
+WORKDIR /src
+COPY . .
+RUN ${install}
+RUN ${plan.packageManager === 'npm' ? 'npm run' : plan.packageManager} build
+RUN test -d '${out}' || (echo "Frontend build output directory ${out} was not created" >&2 && exit 1)
+
+${serve}
+COPY --from=build /src/${out} /usr/share/nginx/html
+EXPOSE 80`;
+}
+
+/**
+ * Works out how to build the frontend of an extracted artifact on the node.
+ * Returns a list of problems instead of a plan if it cannot be built.
+ */
+export function planFrontendBuild(uploadDir: string, frontend: CARSConfigInfo['frontend']): { errors: string[], plan?: FrontendBuildPlan } {
+    const errors: string[] = [];
+    const language = frontend?.language;
+    if (typeof language !== 'string' || !(FRONTEND_LANGUAGES as readonly string[]).includes(language)) {
+        errors.push(`frontend.language must be one of: ${FRONTEND_LANGUAGES.join(', ')} to build the frontend on the server`);
+    }
+    const sourceDirectory = safeRelativePath(frontend?.sourceDirectory);
+    if (!sourceDirectory) {
+        errors.push('frontend.sourceDirectory must be a path inside the artifact to build the frontend on the server');
+    }
+    let outputDirectory: string | null = null;
+    if (frontend?.outputDirectory !== undefined) {
+        outputDirectory = safeRelativePath(frontend.outputDirectory);
+        if (!outputDirectory || outputDirectory === '.') {
+            errors.push('frontend.outputDirectory must be a directory inside frontend.sourceDirectory');
+        }
+    }
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    const sourceDir = path.join(uploadDir, sourceDirectory!);
+    if (!fs.existsSync(sourceDir) || !fs.statSync(sourceDir).isDirectory()) {
+        return { errors: [`Frontend source directory not found: ${sourceDirectory}`] };
+    }
+
+    let framework: FrontendFramework = 'static';
+    let packageManager: FrontendBuildPlan['packageManager'] = null;
+    let install: string | null = null;
+    if (!STATIC_LANGUAGES.includes(language!)) {
+        const packageJsonPath = path.join(sourceDir, 'package.json');
+        if (!fs.existsSync(packageJsonPath)) {
+            return { errors: [`${sourceDirectory}/package.json not found: a ${language} frontend is built with its build script`] };
+        }
+        let packageJson: any;
+        try {
+            packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+        } catch (e: any) {
+            return { errors: [`${sourceDirectory}/package.json is not valid JSON: ${e.message}`] };
+        }
+        if (typeof packageJson?.scripts?.build !== 'string') {
+            return { errors: [`${sourceDirectory}/package.json has no "build" script`] };
+        }
+        framework = detectFramework(packageJson);
+        packageManager = detectPackageManager(sourceDir);
+        install = installCommand(packageManager, sourceDir);
+    }
+
+    const base = {
+        framework,
+        sourceDirectory: sourceDirectory!,
+        outputDirectory: framework === 'static' ? '.' : outputDirectory || DEFAULT_OUTPUT_DIRECTORIES[framework],
+        packageManager
+    };
+    return {
+        errors: [],
+        plan: {
+            ...base,
+            files: {
+                [FRONTEND_DOCKERFILE]: generateFrontendDockerfile(base, install),
+                [FRONTEND_NGINX_CONF_FILE]: FRONTEND_NGINX_CONF
+            }
+        }
+    };
+}
@@ -0,0 +1,139 @@
+/**
+ * Git deploy sources: instead of uploading a tarball, a deploy can name a repository URL and a
+ * branch, tag or full commit SHA. The job fetches just that commit into its build directory and
+ * records the SHA it resolved to, then carries on exactly as for an extracted artifact.
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import { execFile } from 'child_process';
+import type { ArtifactLimits } from './artifact';
+import type { BuildOutputRecorder } from './buildOutput';
+
+// file:// URLs read from the node's own filesystem, so they are only accepted where explicitly allowed (tests, offline nodes).
+const ALLOW_FILE_SOURCES = process.env.CARS_ALLOW_FILE_GIT_SOURCES === 'true';
+const GIT_TIMEOUT_MS = parseInt(process.env.CARS_GIT_TIMEOUT_SECONDS || '600', 10) * 1000;
+
+export const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/;
+const REF_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._\/-]{0,254}$/;
+
+export interface GitSource {
+    url: string;
+    ref: string;
+}
+
+/**
+ * Checks a requested Git source. Returns a list of problems, empty if acceptable.
+ */
+export function validateGitSource(source: any): string[] {
+    const errors: string[] = [];
+    const { url, ref } = source || {};
+    if (typeof url !== 'string' || url.length > 1024) {
+        errors.push('git.url must be a repository URL');
+    } else {
+        let parsed: URL | null = null;
+        try {
+            parsed = new URL(url);
+        } catch (e) {
+            errors.push('git.url must be a repository URL');
+        }
+        if (parsed) {
+            if (parsed.protocol === 'file:') {
+                if (!ALLOW_FILE_SOURCES) {
+                    errors.push('file:// repositories are not enabled on this node');
+                }
+            } else if (parsed.protocol !== 'https:') {
+                errors.push('git.url must be an https:// URL');
+            }
+            if (parsed.username || parsed.password) {
+                errors.push('git.url must not contain credentials; the repository must be readable without them');
+            }
+        }
+    }
+    if (typeof ref !== 'string' || !REF_PATTERN.test(ref) || ref.includes('..') || ref.includes('//') || ref.endsWith('/') || ref.endsWith('.lock')) {
+        errors.push('git.ref must be a branch, tag or full 40-character commit SHA');
+    }
+    return errors;
+}
+
+function git(args: string[], options: { cwd?: string, output?: BuildOutputRecorder, signal?: AbortSignal }): Promise<string> {
+    const { cwd, output, signal } = options;
+    output?.write('system', `$ git ${args.join(' ')}\n`);
+    return new Promise((resolve, reject) => {
+        execFile('git', args, {
+            cwd,
+            signal,
+            timeout: GIT_TIMEOUT_MS,
+            maxBuffer: 16 * 1024 * 1024,
+            // Never wait for credentials: a private repository fails rather than hanging the job.
+            env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_ASKPASS: 'echo' }
+        }, async (error, stdout, stderr) => {
+            if (stderr) output?.write('stderr', stderr);
+            await output?.flush();
+            if (signal?.aborted) {
+                reject(new Error('Deployment cancelled'));
+            } else if (error) {
+                reject(new Error(`Command failed (git ${args[0]}): ${(stderr || error.message).trim()}`));
+            } else {
+                resolve(stdout.trim());
+            }
+        });
+    });
+}
+
+/**
+ * Walk a checked-out tree and hold it to the same rules as an uploaded artifact:
+ * no symlinks, and within the project's extracted size and entry count limits.
+ */
+async function inspectCheckout(dir: string, limits: ArtifactLimits) {
+    let entries = 0;
+    let bytes = 0;
+    const walk = async (current: string) => {
+        for (const name of await fs.readdir(current)) {
+            const fullPath = path.join(current, name);
+            const stat = await fs.lstat(fullPath);
+            if (stat.isSymbolicLink()) {
+                throw new Error(`Repository contains a symlink, which is not allowed: ${path.relative(dir, fullPath)}`);
+            }
+            entries++;
+            if (entries > limits.maxEntries) {
+                throw new Error(`Repository has more than the project limit of ${limits.maxEntries} entries`);
+            }
+            if (stat.isDirectory()) {
+                await walk(fullPath);
+            } else {
+                bytes += stat.size;
+                if (bytes > limits.maxExtractedBytes) {
+                    throw new Error(`Repository checkout is larger than the project limit of ${limits.maxExtractedBytes} bytes`);
+                }
+            }
+        }
+    };
+    await walk(dir);
+    if (entries === 0) {
+        throw new Error('Repository checkout is empty');
+    }
+}
+
+/**
+ * Fetch a single commit of `url` into `dir` (replacing anything already there) and check it out
+ * without its Git metadata. `ref` is a branch, tag or full commit SHA; a full SHA must resolve to
+ * itself. Returns the SHA of the commit that was checked out.
+ */
+export async function checkoutGitSource(source: GitSource, dir: string, limits: ArtifactLimits, options: { output?: BuildOutputRecorder, signal?: AbortSignal } = {}): Promise<string> {
+    fs.removeSync(dir);
+    fs.ensureDirSync(dir);
+    const opts = { ...options, cwd: dir };
+    await git(['init', '--quiet'], opts);
+    await git(['fetch', '--quiet', '--depth', '1', '--no-tags', '--', source.url, source.ref], opts);
+    const commit = await git(['rev-parse', '--verify', 'FETCH_HEAD^{commit}'], opts);
+    if (!COMMIT_SHA_PATTERN.test(commit)) {
+        throw new Error(`Could not resolve ${source.ref} to a commit`);
+    }
+    if (COMMIT_SHA_PATTERN.test(source.ref) && commit !== source.ref) {
+        throw new Error(`Fetched commit ${commit} does not match the requested commit ${source.ref}`);
+    }
+    await git(['-c', 'advice.detachedHead=false', 'checkout', '--quiet', '--detach', commit], opts);
+    fs.removeSync(path.join(dir, '.git'));
+    await inspectCheckout(dir, limits);
+    return commit;
+}
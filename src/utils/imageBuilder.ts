@@ -0,0 +1,198 @@
+/**
+ * Image builders: how a deploy's frontend and backend images are built from their
+ * build contexts and pushed to the registry. Each node picks one with CARS_IMAGE_BUILDER:
+ * - buildah (default): daemonless, vfs storage with chroot isolation, as the node has always used
+ * - docker: the Docker daemon at DOCKER_HOST (or the local socket), e.g. a BuildKit-enabled daemon
+ * Tests swap in a recordingImageBuilder() with setImageBuilder, so the pipeline can run without containers;
+ * it cannot be selected through the environment.
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import logger from '../logger';
+
+export const IMAGE_BUILDERS = ['buildah', 'docker'] as const;
+export type ImageBuilderName = typeof IMAGE_BUILDERS[number];
+
+/**
+ * Runs a shell command for the builder, capturing its output into the deploy and honouring cancellation.
+ */
+export type BuildCommandRunner = (command: string) => Promise<void>;
+
+export interface ImageBuildOptions {
+    // Dockerfile to build, relative to the context (default: Dockerfile at its root)
+    dockerfile?: string;
+    buildArgs?: Record<string, string>;
+}
+
+export interface ImageBuilder {
+    readonly name: ImageBuilderName | 'recording';
+    // Build the context's Dockerfile (or options.dockerfile) and tag the result as `image`
+    build(contextDir: string, image: string, run: BuildCommandRunner, options?: ImageBuildOptions): Promise<void>;
+    // Push a previously built `image` to its registry
+    push(image: string, run: BuildCommandRunner): Promise<void>;
+    // Build the context and write the files of its final stage into `outputDir` instead of keeping an image
+    export(contextDir: string, outputDir: string, run: BuildCommandRunner, options?: ImageBuildOptions): Promise<void>;
+}
+
+// Build arguments and Dockerfile paths come from deployment-info.json, so they are quoted for the shell.
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function buildFlags(contextDir: string, options: ImageBuildOptions): string {
+    const flags: string[] = [];
+    if (options.dockerfile) {
+        flags.push(`-f ${shellQuote(path.join(contextDir, options.dockerfile))}`);
+    }
+    for (const [name, value] of Object.entries(options.buildArgs || {})) {
+        flags.push(`--build-arg ${shellQuote(`${name}=${value}`)}`);
+    }
+    return flags.map(flag => `${flag} `).join('');
+}
+
+export function buildahImageBuilder(): ImageBuilder {
+    return {
+        name: 'buildah',
+        async build(contextDir, image, run, options = {}) {
+            // Base images may come from the node's own registry (cached dependency layers), which is plain HTTP
+            await run(`buildah build --storage-driver=vfs --isolation=chroot --tls-verify=false ${buildFlags(contextDir, options)}-t ${image} ${contextDir}`);
+        },
+        async push(image, run) {
+            await run(`buildah push --storage-driver=vfs --tls-verify=false ${image}`);
+        },
+        async export(contextDir, outputDir, run, options = {}) {
+            await run(`buildah build --storage-driver=vfs --isolation=chroot --tls-verify=false ${buildFlags(contextDir, options)}--output type=local,dest=${shellQuote(outputDir)} ${contextDir}`);
+        }
+    };
+}
+
+export function dockerImageBuilder(): ImageBuilder {
+    return {
+        name: 'docker',
+        async build(contextDir, image, run, options = {}) {
+            await run(`docker build ${buildFlags(contextDir, options)}-t ${image} ${contextDir}`);
+        },
+        async push(image, run) {
+            await run(`docker push ${image}`);
+        },
+        async export(contextDir, outputDir, run, options = {}) {
+            // Local outputs need BuildKit
+            await run(`DOCKER_BUILDKIT=1 docker build ${buildFlags(contextDir, options)}--output type=local,dest=${shellQuote(outputDir)} ${contextDir}`);
+        }
+    };
+}
+
+export interface RecordedImageBuild {
+    action: 'build' | 'push' | 'export';
+    // Not set for an export
+    image?: string;
+    contextDir?: string;
+    outputDir?: string;
+    // Dockerfile as it was when the build was requested
+    dockerfile?: string;
+    buildArgs?: Record<string, string>;
+}
+
+export interface RecordingImageBuilder extends ImageBuilder {
+    readonly calls: RecordedImageBuild[];
+    // Images built so far
+    readonly images: Set<string>;
+    // Make the next build or push of `image` throw, to exercise failure handling
+    failNext(image: string, message?: string): void;
+}
+
+export interface RecordingImageBuilderOptions {
+    // Files an export writes into its output directory, in place of what the build would produce
+    exportFiles?: (call: RecordedImageBuild) => Record<string, string>;
+}
+
+/**
+ * Test double: nothing is built or pushed. Each request is checked (a build needs a Dockerfile,
+ * a push needs an image built earlier by this builder) and recorded in `calls`.
+ */
+export function recordingImageBuilder(options: RecordingImageBuilderOptions = {}): RecordingImageBuilder {
+    const calls: RecordedImageBuild[] = [];
+    const images = new Set<string>();
+    const failures = new Map<string, string>();
+    const takeFailure = (image: string) => {
+        const message = failures.get(image);
+        if (message !== undefined) {
+            failures.delete(image);
+            throw new Error(message);
+        }
+    };
+    const readDockerfile = async (contextDir: string, dockerfile?: string) => {
+        const dockerfilePath = path.join(contextDir, dockerfile || 'Dockerfile');
+        if (!fs.existsSync(dockerfilePath)) {
+            throw new Error(`No ${dockerfile || 'Dockerfile'} in build context ${contextDir}`);
+        }
+        return fs.readFile(dockerfilePath, 'utf-8');
+    };
+    return {
+        name: 'recording',
+        calls,
+        images,
+        failNext(image, message = `Recorded failure for ${image}`) {
+            failures.set(image, message);
+        },
+        async build(contextDir, image, _run, buildOptions = {}) {
+            const dockerfile = await readDockerfile(contextDir, buildOptions.dockerfile);
+            calls.push({ action: 'build', image, contextDir, dockerfile, buildArgs: buildOptions.buildArgs });
+            takeFailure(image);
+            images.add(image);
+        },
+        async push(image) {
+            calls.push({ action: 'push', image });
+            takeFailure(image);
+            if (!images.has(image)) {
+                throw new Error(`Image ${image} has not been built`);
+            }
+        },
+        async export(contextDir, outputDir, _run, buildOptions = {}) {
+            const dockerfile = await readDockerfile(contextDir, buildOptions.dockerfile);
+            const call: RecordedImageBuild = { action: 'export', contextDir, outputDir, dockerfile, buildArgs: buildOptions.buildArgs };
+            calls.push(call);
+            fs.ensureDirSync(outputDir);
+            for (const [name, content] of Object.entries(options.exportFiles?.(call) || {})) {
+                fs.writeFileSync(path.join(outputDir, name), content);
+            }
+        }
+    };
+}
+
+let selectedBuilder: ImageBuilder | null = null;
+
+export function createImageBuilder(name: string): ImageBuilder {
+    switch (name) {
+        case 'buildah':
+            return buildahImageBuilder();
+        case 'docker':
+            return dockerImageBuilder();
+        default:
+            throw new Error(`Unknown image builder '${name}' in CARS_IMAGE_BUILDER, expected one of: ${IMAGE_BUILDERS.join(', ')}`);
+    }
+}
+
+/**
+ * Selects the node's image builder from CARS_IMAGE_BUILDER. Called once at startup,
+ * so a misconfigured node fails before it accepts any deployments.
+ */
+export function loadImageBuilder(): ImageBuilder {
+    selectedBuilder = createImageBuilder(process.env.CARS_IMAGE_BUILDER || 'buildah');
+    logger.info(`Building images with ${selectedBuilder.name}`);
+    return selectedBuilder;
+}
+
+export function getImageBuilder(): ImageBuilder {
+    if (!selectedBuilder) {
+        selectedBuilder = createImageBuilder(process.env.CARS_IMAGE_BUILDER || 'buildah');
+    }
+    return selectedBuilder;
+}
+
+/**
+ * Replace the node's image builder, e.g. with a recordingImageBuilder() in tests.
+ */
+export function setImageBuilder(builder: ImageBuilder) {
+    selectedBuilder = builder;
+}
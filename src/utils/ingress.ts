@@ -21,8 +21,9 @@ export async function enableIngress(projectUUID: string): Promise<boolean> {
     const helmReleaseName = `cars-project-${projectUUID.substr(0, 24)}`;
 
     try {
-        // Let's just assume we can do a helm rollback:
-        execSync(`helm rollback ${helmReleaseName} 1 -n ${namespace}`, { stdio: 'inherit' });
+        // Roll back onto the currently deployed revision, which re-applies its ingress.
+        const status = JSON.parse(execSync(`helm status ${helmReleaseName} -n ${namespace} -o json`, { encoding: 'utf8' }));
+        execSync(`helm rollback ${helmReleaseName} ${status.version} -n ${namespace}`, { stdio: 'inherit' });
         logger.info({ project_uuid: projectUUID }, 'Ingress enabled (rollback/upgrade performed).');
         return true;
     } catch (e) {
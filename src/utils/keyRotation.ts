@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import type { Knex } from 'knex';
+import { PrivateKey } from '@bsv/sdk';
+import logger from '../logger';
+import { encryptValue, projectPrivateKey } from './encryption';
+import { legacyDbCredentials, sealDbCredentials } from './dbCredentials';
+import { sweepKey } from './wallet';
+
+export interface KeyRotationResult {
+    // Set when the rotation could not start; nothing was changed
+    rejection?: string;
+    rotationId?: number;
+    publicKey?: string;
+    previousPublicKey?: string;
+    // The new admin bearer token; only ever returned here, it is stored encrypted
+    adminBearerToken?: string;
+    sweptSatoshis?: number;
+    // Set when the new key is in place but the old key's funds could not be moved
+    sweepError?: string | null;
+}
+
+/**
+ * rotateProjectKey:
+ * Replaces a project's private key and admin bearer token with freshly generated ones and
+ * sweeps the old key's balance to the new key. Both are stored before the sweep, and the old
+ * key is kept encrypted in project_key_rotations, so a failed sweep never strands funds.
+ * The running release keeps the old key and token until it is redeployed.
+ */
+export async function rotateProjectKey(db: Knex, project: any, requestedBy: string): Promise<KeyRotationResult> {
+    const previousKey = projectPrivateKey(project);
+    const newKey = crypto.randomBytes(32).toString('hex');
+    const adminBearerToken = crypto.randomBytes(32).toString('hex');
+    const previousPublicKey = new PrivateKey(previousKey, 'hex').toPublicKey().toString();
+    const publicKey = new PrivateKey(newKey, 'hex').toPublicKey().toString();
+
+    let rotationId: number | undefined;
+    await db.transaction(async trx => {
+        const current = await trx('projects').where({ id: project.id }).forUpdate().first();
+        if (current.private_key !== project.private_key) {
+            return;
+        }
+        const update: Record<string, any> = {
+            private_key: encryptValue(newKey),
+            admin_bearer_token: encryptValue(adminBearerToken)
+        };
+        // Legacy projects derive their Mongo replica set key from the private key; pin it
+        // so the running replica set keeps authenticating after the switch
+        if (!current.db_credentials) {
+            update.db_credentials = sealDbCredentials(legacyDbCredentials(current));
+        }
+        await trx('projects').where({ id: project.id }).update(update);
+        [rotationId] = await trx('project_key_rotations').insert({
+            project_id: project.id,
+            previous_public_key: previousPublicKey,
+            public_key: publicKey,
+            previous_private_key: encryptValue(previousKey),
+            requested_by: requestedBy
+        });
+    });
+    if (rotationId === undefined) {
+        return { rejection: 'The project key was rotated by another request; try again' };
+    }
+
+    let sweptSatoshis = 0;
+    let sweepError: string | null = null;
+    try {
+        sweptSatoshis = await sweepKey(previousKey, newKey, project.network);
+    } catch (e: any) {
+        sweepError = e.message;
+        logger.error({ projectId: project.project_uuid, error: e.message }, 'Failed to sweep rotated project key');
+    }
+    await db('project_key_rotations').where({ id: rotationId }).update({
+        status: sweepError ? 'sweep_failed' : 'swept',
+        swept_satoshis: sweptSatoshis,
+        error: sweepError
+    });
+
+    return { rotationId, publicKey, previousPublicKey, adminBearerToken, sweptSatoshis, sweepError };
+}
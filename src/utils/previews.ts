@@ -0,0 +1,160 @@
+/**
+ * Preview environments: named, short-lived releases of a project, each in its own namespace
+ * (`cars-project-<uuid>-<name>`) and under its own subdomain (`frontend.<name>.<uuid>.<domain>`).
+ * They run the project's code with the project's key, settings and environment, are billed to
+ * the project, and are torn down once their TTL runs out.
+ */
+import type { Knex } from 'knex';
+import logger from '../logger';
+import { runCmd } from './deployPipeline';
+
+export const PREVIEW_NAME_PATTERN = /^[a-z0-9]([a-z0-9-]{0,14}[a-z0-9])?$/;
+export const PREVIEW_DEFAULT_TTL_HOURS = parseInt(process.env.CARS_PREVIEW_TTL_HOURS || '72', 10);
+export const PREVIEW_MAX_TTL_HOURS = parseInt(process.env.CARS_PREVIEW_MAX_TTL_HOURS || '720', 10);
+export const MAX_PREVIEWS_PER_PROJECT = parseInt(process.env.CARS_MAX_PREVIEWS_PER_PROJECT || '5', 10);
+// Volume size for both databases of a preview created with lightDatabases
+const PREVIEW_VOLUME_SIZE = process.env.CARS_PREVIEW_VOLUME_SIZE || '2Gi';
+// How long each teardown command may run before it is killed
+const UNINSTALL_TIMEOUT_MS = 300000;
+const NAMESPACE_DELETE_TIMEOUT_MS = 60000;
+
+/**
+ * Namespace of a project's main release, or of one of its previews.
+ */
+export function projectNamespace(project: any, previewName?: string | null): string {
+    return previewName
+        ? `cars-project-${project.project_uuid}-${previewName}`
+        : `cars-project-${project.project_uuid}`;
+}
+
+/**
+ * Helm release name. Previews live in their own namespaces, so they share the project's.
+ */
+export function projectReleaseName(project: any): string {
+    return `cars-project-${project.project_uuid.substr(0, 24)}`;
+}
+
+export function previewHosts(project: any, preview: any) {
+    const base = `${preview.name}.${project.project_uuid}.${process.env.PROJECT_DEPLOYMENT_DNS_NAME}`;
+    return { frontend: `frontend.${base}`, backend: `backend.${base}` };
+}
+
+/**
+ * Helm values for a preview created with lightDatabases: single-instance MySQL and small volumes.
+ */
+export function lightDatabaseValues(): Record<string, any> {
+    return {
+        singleNode: true,
+        storage: { mysqlSize: PREVIEW_VOLUME_SIZE, mongoSize: PREVIEW_VOLUME_SIZE }
+    };
+}
+
+/**
+ * Checks a request to create a preview. Returns a list of problems, empty if acceptable.
+ */
+export function validatePreviewRequest(body: any): string[] {
+    const errors: string[] = [];
+    const { name, ttlHours, lightDatabases } = body || {};
+    if (typeof name !== 'string' || !PREVIEW_NAME_PATTERN.test(name)) {
+        errors.push('name must be 1-16 lowercase letters, digits or hyphens, starting and ending with a letter or digit');
+    }
+    if (ttlHours !== undefined && (!Number.isInteger(ttlHours) || ttlHours < 1 || ttlHours > PREVIEW_MAX_TTL_HOURS)) {
+        errors.push(`ttlHours must be a whole number of hours between 1 and ${PREVIEW_MAX_TTL_HOURS}`);
+    }
+    if (lightDatabases !== undefined && typeof lightDatabases !== 'boolean') {
+        errors.push('lightDatabases must be true or false');
+    }
+    return errors;
+}
+
+export async function findActivePreview(db: Knex, projectId: number, name: string) {
+    return db('project_previews').where({ project_id: projectId, name }).whereNull('deleted_at').first();
+}
+
+export async function listPreviews(db: Knex, project: any) {
+    const previews = await db('project_previews')
+        .where({ project_id: project.id })
+        .whereNull('deleted_at')
+        .orderBy('created_at', 'asc');
+    return previews.map(describePreview(project));
+}
+
+export function describePreview(project: any) {
+    return (preview: any) => ({
+        name: preview.name,
+        namespace: projectNamespace(project, preview.name),
+        urls: previewHosts(project, preview),
+        lightDatabases: Boolean(preview.light_databases),
+        expiresAt: preview.expires_at,
+        createdBy: preview.created_by,
+        createdAt: preview.created_at
+    });
+}
+
+/**
+ * The preview a deploy targets, or null for the project's main release.
+ * Throws if the preview has been torn down since the deploy was created.
+ */
+export async function previewForDeploy(db: Knex, deploy: any) {
+    if (!deploy.preview_id) return null;
+    const preview = await db('project_previews').where({ id: deploy.preview_id }).first();
+    if (!preview || preview.deleted_at) {
+        throw new Error('The preview environment for this deployment has been torn down');
+    }
+    return preview;
+}
+
+/**
+ * Whether a deploy of the preview is queued or running.
+ */
+export async function previewDeployInProgress(db: Knex, previewId: number): Promise<boolean> {
+    const job = await db('deployment_jobs')
+        .join('deploys', 'deploys.id', 'deployment_jobs.deploy_id')
+        .where('deploys.preview_id', previewId)
+        .whereIn('deployment_jobs.state', ['queued', 'running'])
+        .first('deployment_jobs.id');
+    return Boolean(job);
+}
+
+/**
+ * Remove a preview's release and namespace and mark it deleted.
+ * The commands run without blocking the event loop, so the API and the other cron jobs keep running.
+ */
+export async function teardownPreview(db: Knex, project: any, preview: any, reason: string) {
+    const namespace = projectNamespace(project, preview.name);
+    try {
+        await runCmd(`helm uninstall ${projectReleaseName(project)} -n ${namespace}`, { signal: AbortSignal.timeout(UNINSTALL_TIMEOUT_MS) });
+    } catch (e) {
+        logger.warn({ project_uuid: project.project_uuid, preview: preview.name }, 'Preview Helm uninstall failed or not found. Continuing.');
+    }
+    try {
+        await runCmd(`kubectl delete namespace ${namespace} --wait=false`, { signal: AbortSignal.timeout(NAMESPACE_DELETE_TIMEOUT_MS) });
+    } catch (e) {
+        logger.warn({ project_uuid: project.project_uuid, preview: preview.name }, 'Preview namespace deletion failed or not found. Continuing.');
+    }
+    await db('project_previews').where({ id: preview.id }).update({ deleted_at: new Date() });
+    await db('logs').insert({
+        project_id: project.id,
+        message: `Preview environment ${preview.name} torn down (${reason})`
+    });
+}
+
+/**
+ * Tear down every preview whose TTL has run out. A preview with a deploy in progress
+ * is left for the next run, and one that fails to tear down does not hold up the rest.
+ */
+export async function teardownExpiredPreviews(db: Knex) {
+    const expired = await db('project_previews')
+        .whereNull('deleted_at')
+        .where('expires_at', '<=', new Date());
+    for (const preview of expired) {
+        try {
+            if (await previewDeployInProgress(db, preview.id)) continue;
+            const project = await db('projects').where({ id: preview.project_id }).first();
+            await teardownPreview(db, project, preview, 'TTL expired');
+            logger.info({ project_uuid: project.project_uuid, preview: preview.name }, 'Expired preview environment torn down');
+        } catch (error: any) {
+            logger.error({ previewId: preview.id, error: error.message }, 'Failed to tear down expired preview environment');
+        }
+    }
+}
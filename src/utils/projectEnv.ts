@@ -0,0 +1,113 @@
+/**
+ * Project environment variables: set by project admins, stored encrypted in
+ * project_env_vars, and handed to the backend container through a Secret
+ * mounted with envFrom. Values are only ever decrypted to render that Secret.
+ */
+import type { Knex } from 'knex';
+import { decryptValue, encryptValue } from './encryption';
+
+// Set by CARS itself on every backend container; a project variable cannot shadow them
+export const RESERVED_ENV_NAMES = [
+    'SERVER_PRIVATE_KEY',
+    'HOSTING_URL',
+    'REQUEST_LOGGING',
+    'GASP_SYNC',
+    'NETWORK',
+    'ARC_API_KEY',
+    'KNEX_URL',
+    'MYSQL_WAIT_HOST',
+    'MYSQL_WAIT_PORT',
+    'MONGO_URL',
+    'MONGO_WAIT_HOST',
+    'MONGO_WAIT_PORT',
+    'WEB_UI_CONFIG',
+    'ADMIN_BEARER_TOKEN',
+    'LOG_TIME',
+    'LOG_PREFIX',
+    'SUPPRESS_DEFAULT_SYNC_ADVERTISEMENTS',
+    'THROW_ON_BROADCAST_FAIL',
+    'SYNC_CONFIG_JSON',
+    'PORT',
+    'CARS_HEALTH_LIVE_PATH',
+    'CARS_HEALTH_READY_PATH'
+];
+
+export const MAX_ENV_VARS = parseInt(process.env.CARS_MAX_PROJECT_ENV_VARS || '100', 10);
+export const MAX_ENV_VALUE_BYTES = 32 * 1024;
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Checks a requested change: `set` maps names to new values, `unset` lists names to remove.
+ * Returns every problem found; an empty list means the update can be applied.
+ */
+export function validateEnvUpdate(existingNames: string[], set: Record<string, any>, unset: string[]): string[] {
+    const errors: string[] = [];
+    for (const [name, value] of Object.entries(set)) {
+        if (!ENV_NAME_PATTERN.test(name) || name.length > 255) {
+            errors.push(`${name}: names must start with a letter or underscore and contain only letters, digits and underscores`);
+        } else if (RESERVED_ENV_NAMES.includes(name)) {
+            errors.push(`${name}: reserved for CARS`);
+        }
+        if (typeof value !== 'string') {
+            errors.push(`${name}: value must be a string`);
+        } else if (Buffer.byteLength(value, 'utf8') > MAX_ENV_VALUE_BYTES) {
+            errors.push(`${name}: value is over ${MAX_ENV_VALUE_BYTES} bytes`);
+        }
+    }
+    for (const name of unset) {
+        if (typeof name !== 'string') {
+            errors.push('unset must be a list of variable names');
+        } else if (Object.prototype.hasOwnProperty.call(set, name)) {
+            errors.push(`${name}: cannot be both set and unset`);
+        }
+    }
+    const names = new Set(existingNames);
+    Object.keys(set).forEach(name => names.add(name));
+    unset.forEach(name => names.delete(name));
+    if (names.size > MAX_ENV_VARS) {
+        errors.push(`A project can have at most ${MAX_ENV_VARS} environment variables`);
+    }
+    return errors;
+}
+
+/**
+ * Names and last-update times of a project's variables. Never includes values.
+ */
+export async function listProjectEnv(db: Knex, projectId: number): Promise<Array<{ name: string, updatedAt: Date }>> {
+    const rows = await db('project_env_vars')
+        .where({ project_id: projectId })
+        .select('name', 'updated_at')
+        .orderBy('name', 'asc');
+    return rows.map((row: any) => ({ name: row.name, updatedAt: row.updated_at }));
+}
+
+/**
+ * Applies a validated update in one transaction.
+ */
+export async function updateProjectEnv(db: Knex, projectId: number, set: Record<string, string>, unset: string[]): Promise<void> {
+    await db.transaction(async trx => {
+        if (unset.length > 0) {
+            await trx('project_env_vars').where({ project_id: projectId }).whereIn('name', unset).del();
+        }
+        for (const [name, value] of Object.entries(set)) {
+            const sealed = encryptValue(value);
+            await trx('project_env_vars')
+                .insert({ project_id: projectId, name, value: sealed })
+                .onConflict(['project_id', 'name'])
+                .merge({ value: sealed, updated_at: new Date() });
+        }
+    });
+}
+
+/**
+ * The decrypted environment for a project, for rendering into its Secret.
+ */
+export async function loadProjectEnv(db: Knex, projectId: number): Promise<Record<string, string>> {
+    const rows = await db('project_env_vars').where({ project_id: projectId }).select('name', 'value');
+    const env: Record<string, string> = {};
+    for (const row of rows) {
+        env[row.name] = decryptValue(row.value);
+    }
+    return env;
+}
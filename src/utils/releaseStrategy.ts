@@ -0,0 +1,157 @@
+/**
+ * Release strategies. Every project release has two slots for its app Deployment:
+ * "blue" (the original `<release>-deployment`) and "green" (`<release>-green-deployment`).
+ * The project Service sends traffic to whichever slot is live.
+ *
+ * - rolling: the live slot's Deployment is updated in place.
+ * - blue_green: the new version is rolled out to the idle slot and verified there while the
+ *   live slot keeps serving. Promoting switches the Service over to it.
+ * - canary: as blue_green, but a weighted share of ingress traffic goes to the new version
+ *   (ingress-nginx canary) until it is promoted.
+ *
+ * A staged (blue_green or canary) deploy waits in `awaiting_promotion` until it is promoted or aborted.
+ */
+import type { Knex } from 'knex';
+
+export const DEPLOY_STRATEGIES = ['rolling', 'blue_green', 'canary'] as const;
+export type DeployStrategy = typeof DEPLOY_STRATEGIES[number];
+
+export type ReleaseSlot = 'blue' | 'green';
+
+export interface SlotImages {
+    backendImage: string | null;
+    frontendImage: string | null;
+}
+
+export interface ReleaseLayout {
+    slots: Record<ReleaseSlot, SlotImages | null>;
+    // Slot the project Service points at
+    activeSlot: ReleaseSlot;
+    // Share of ingress traffic sent to the other slot before promotion
+    canary: { slot: ReleaseSlot, weight: number } | null;
+}
+
+export const DEFAULT_CANARY_WEIGHT = 10;
+
+export function isStagedStrategy(strategy: string | null | undefined): boolean {
+    return strategy === 'blue_green' || strategy === 'canary';
+}
+
+export function otherSlot(slot: ReleaseSlot): ReleaseSlot {
+    return slot === 'blue' ? 'green' : 'blue';
+}
+
+/**
+ * The `app` label of a slot's pods. The blue slot keeps the labels releases have always had.
+ */
+export function slotAppName(releaseName: string, slot: ReleaseSlot): string {
+    return slot === 'blue' ? releaseName : `${releaseName}-green`;
+}
+
+export function slotDeploymentName(releaseName: string, slot: ReleaseSlot): string {
+    return `${slotAppName(releaseName, slot)}-deployment`;
+}
+
+export function validateCanaryWeight(weight: unknown): string | null {
+    if (!Number.isInteger(weight) || (weight as number) < 1 || (weight as number) > 99) {
+        return 'canaryWeight must be a whole percentage between 1 and 99';
+    }
+    return null;
+}
+
+/**
+ * Layout with a single slot serving everything.
+ */
+export function singleSlotLayout(slot: ReleaseSlot, images: SlotImages): ReleaseLayout {
+    return {
+        slots: { blue: null, green: null, [slot]: images } as Record<ReleaseSlot, SlotImages | null>,
+        activeSlot: slot,
+        canary: null
+    };
+}
+
+/**
+ * Layout with the live release in one slot and a candidate in the other.
+ * `serving` says whether the Service still points at the live release or has been switched to the candidate.
+ */
+export function stagedLayout(live: { slot: ReleaseSlot, images: SlotImages }, candidate: SlotImages, serving: 'live' | 'candidate', canaryWeight: number | null): ReleaseLayout {
+    const candidateSlot = otherSlot(live.slot);
+    return {
+        slots: { [live.slot]: live.images, [candidateSlot]: candidate } as Record<ReleaseSlot, SlotImages | null>,
+        activeSlot: serving === 'live' ? live.slot : candidateSlot,
+        canary: serving === 'live' && canaryWeight ? { slot: candidateSlot, weight: canaryWeight } : null
+    };
+}
+
+export function recordedValues(deploy: any): Record<string, any> {
+    return typeof deploy.helm_values === 'string' ? JSON.parse(deploy.helm_values) : deploy.helm_values;
+}
+
+/**
+ * The deploy currently serving the project (or one of its previews): the last one to complete,
+ * other than `excludeDeployId`. Returns its slot and images, or null if nothing has been deployed.
+ */
+export async function liveRelease(db: Knex, projectId: number, previewId: number | null, excludeDeployId?: number) {
+    const query = db('deploys')
+        .where({ project_id: projectId, preview_id: previewId, status: 'succeeded' })
+        .whereNotNull('helm_values')
+        .orderBy('status_updated_at', 'desc')
+        .orderBy('id', 'desc');
+    if (excludeDeployId !== undefined) {
+        query.whereNot({ id: excludeDeployId });
+    }
+    const deploy = await query.first();
+    if (!deploy) return null;
+    const values = recordedValues(deploy);
+    return {
+        deploy,
+        slot: (deploy.release_slot || 'blue') as ReleaseSlot,
+        images: { backendImage: values.backendImage || null, frontendImage: values.frontendImage || null } as SlotImages
+    };
+}
+
+export interface ReleasePlan {
+    // Strategy actually used: a staged strategy falls back to rolling when nothing is live yet
+    strategy: string;
+    // Slot the deploy's images run in
+    slot: ReleaseSlot;
+    layout: ReleaseLayout;
+}
+
+/**
+ * Decide where a deploy's images go. Rolling deploys replace the live slot; blue/green and
+ * canary deploys go to the idle slot next to the live release. Previews always roll.
+ * Recorded on the deploy.
+ */
+export async function planRelease(db: Knex, project: any, deploy: any, images: SlotImages, strategy: string): Promise<ReleasePlan> {
+    const live = await liveRelease(db, project.id, deploy.preview_id || null, deploy.id);
+    let plan: ReleasePlan;
+    if (!live || !isStagedStrategy(strategy) || deploy.preview_id) {
+        const slot = live?.slot || 'blue';
+        plan = { strategy: 'rolling', slot, layout: singleSlotLayout(slot, images) };
+    } else {
+        const canaryWeight = strategy === 'canary' ? project.canary_weight || DEFAULT_CANARY_WEIGHT : null;
+        plan = { strategy, slot: otherSlot(live.slot), layout: stagedLayout(live, images, 'live', canaryWeight) };
+    }
+    await db('deploys').where({ id: deploy.id }).update({ deploy_strategy: plan.strategy, release_slot: plan.slot });
+    return plan;
+}
+
+/**
+ * Deploys still waiting to be promoted, other than `deployId`, are cancelled: the release
+ * that replaced them no longer has them in its idle slot.
+ */
+export async function supersedeCandidates(db: Knex, projectId: number, deploy: any) {
+    const candidates = await db('deploys')
+        .where({ project_id: projectId, preview_id: null, status: 'awaiting_promotion' })
+        .whereNot({ id: deploy.id });
+    for (const candidate of candidates) {
+        const reason = `Superseded by deployment ${deploy.deployment_uuid} before it was promoted`;
+        await db('deploys').where({ id: candidate.id, status: 'awaiting_promotion' }).update({
+            status: 'cancelled',
+            status_updated_at: new Date(),
+            failure_reason: reason
+        });
+        await db('logs').insert({ project_id: projectId, deploy_id: candidate.id, message: reason });
+    }
+}
@@ -0,0 +1,186 @@
+/**
+ * Per-project scaling and resource profile: container requests/limits, replica bounds,
+ * autoscaling targets and database volume sizes. Stored as JSON in projects.resource_profile
+ * and rendered into the Helm values on the next deploy.
+ */
+
+export interface ContainerResources {
+    requests: { cpu?: string, memory?: string };
+    limits: { cpu?: string, memory?: string };
+}
+
+export interface ResourceProfile {
+    backend: ContainerResources;
+    frontend: ContainerResources;
+    replicas: { min: number, max: number };
+    autoscaling: { cpuUtilization: number, memoryUtilization?: number };
+    storage: { mysqlSize: string, mongoSize: string };
+}
+
+// What every project got before profiles existed
+export const DEFAULT_RESOURCE_PROFILE: ResourceProfile = {
+    backend: { requests: { cpu: '100m' }, limits: {} },
+    frontend: { requests: { cpu: '100m' }, limits: {} },
+    replicas: { min: 2, max: 10 },
+    autoscaling: { cpuUtilization: 50 },
+    storage: { mysqlSize: '20Gi', mongoSize: '20Gi' }
+};
+
+// Node-wide ceilings a project profile may not exceed
+export const RESOURCE_MAXIMUMS = {
+    cpu: process.env.CARS_MAX_CONTAINER_CPU || '4',
+    memory: process.env.CARS_MAX_CONTAINER_MEMORY || '8Gi',
+    replicas: parseInt(process.env.CARS_MAX_REPLICAS || '20', 10),
+    volumeSize: process.env.CARS_MAX_VOLUME_SIZE || '200Gi'
+};
+
+const MEMORY_UNITS: Record<string, number> = {
+    '': 1,
+    k: 1e3, M: 1e6, G: 1e9, T: 1e12,
+    Ki: 1024, Mi: 1024 ** 2, Gi: 1024 ** 3, Ti: 1024 ** 4
+};
+
+/**
+ * Parse a Kubernetes CPU quantity ("250m", "0.5", "2") into cores. Returns NaN if malformed.
+ */
+export function parseCpu(quantity: string): number {
+    const match = /^(\d+(?:\.\d+)?)(m?)$/.exec(String(quantity));
+    if (!match) return NaN;
+    return match[2] === 'm' ? parseFloat(match[1]) / 1000 : parseFloat(match[1]);
+}
+
+/**
+ * Parse a Kubernetes memory/storage quantity ("512Mi", "1G", "20Gi") into bytes. Returns NaN if malformed.
+ */
+export function parseMemory(quantity: string): number {
+    const match = /^(\d+(?:\.\d+)?)(k|M|G|T|Ki|Mi|Gi|Ti)?$/.exec(String(quantity));
+    if (!match) return NaN;
+    return parseFloat(match[1]) * MEMORY_UNITS[match[2] || ''];
+}
+
+function mergeContainer(base: ContainerResources, update: any): ContainerResources {
+    return {
+        requests: { ...base.requests, ...(update?.requests || {}) },
+        limits: { ...base.limits, ...(update?.limits || {}) }
+    };
+}
+
+/**
+ * Apply a (possibly partial) profile update on top of an existing profile.
+ */
+export function mergeResourceProfile(base: ResourceProfile, update: any): ResourceProfile {
+    return {
+        backend: mergeContainer(base.backend, update?.backend),
+        frontend: mergeContainer(base.frontend, update?.frontend),
+        replicas: { ...base.replicas, ...(update?.replicas || {}) },
+        autoscaling: { ...base.autoscaling, ...(update?.autoscaling || {}) },
+        storage: { ...base.storage, ...(update?.storage || {}) }
+    };
+}
+
+/**
+ * The profile in effect for a project: its stored settings over the defaults.
+ */
+export function resourceProfileForProject(project: any): ResourceProfile {
+    let stored: any = {};
+    if (project.resource_profile) {
+        try {
+            stored = typeof project.resource_profile === 'string' ? JSON.parse(project.resource_profile) : project.resource_profile;
+        } catch (e) {
+            stored = {};
+        }
+    }
+    return mergeResourceProfile(DEFAULT_RESOURCE_PROFILE, stored);
+}
+
+function validateContainer(name: string, resources: ContainerResources, errors: string[]) {
+    const maxCpu = parseCpu(RESOURCE_MAXIMUMS.cpu);
+    const maxMemory = parseMemory(RESOURCE_MAXIMUMS.memory);
+    for (const kind of ['requests', 'limits'] as const) {
+        const { cpu, memory } = resources[kind];
+        if (cpu !== undefined) {
+            const cores = parseCpu(cpu);
+            if (isNaN(cores) || cores <= 0) {
+                errors.push(`${name}.${kind}.cpu must be a CPU quantity such as "250m" or "1"`);
+            } else if (cores > maxCpu) {
+                errors.push(`${name}.${kind}.cpu ${cpu} exceeds the node maximum of ${RESOURCE_MAXIMUMS.cpu}`);
+            }
+        }
+        if (memory !== undefined) {
+            const bytes = parseMemory(memory);
+            if (isNaN(bytes) || bytes <= 0) {
+                errors.push(`${name}.${kind}.memory must be a memory quantity such as "512Mi" or "1Gi"`);
+            } else if (bytes > maxMemory) {
+                errors.push(`${name}.${kind}.memory ${memory} exceeds the node maximum of ${RESOURCE_MAXIMUMS.memory}`);
+            }
+        }
+    }
+    const { requests, limits } = resources;
+    if (requests.cpu && limits.cpu && parseCpu(requests.cpu) > parseCpu(limits.cpu)) {
+        errors.push(`${name}.requests.cpu must not exceed ${name}.limits.cpu`);
+    }
+    if (requests.memory && limits.memory && parseMemory(requests.memory) > parseMemory(limits.memory)) {
+        errors.push(`${name}.requests.memory must not exceed ${name}.limits.memory`);
+    }
+}
+
+/**
+ * Check a profile against the node maximums. `current` is the profile in effect now;
+ * volumes can only grow, since Kubernetes cannot shrink a persistent volume claim.
+ * Returns a list of problems, empty if the profile is acceptable.
+ */
+export function validateResourceProfile(profile: ResourceProfile, current: ResourceProfile): string[] {
+    const errors: string[] = [];
+    validateContainer('backend', profile.backend, errors);
+    validateContainer('frontend', profile.frontend, errors);
+
+    const { min, max } = profile.replicas;
+    if (!Number.isInteger(min) || min < 1) {
+        errors.push('replicas.min must be an integer of at least 1');
+    }
+    if (!Number.isInteger(max) || max < min) {
+        errors.push('replicas.max must be an integer no smaller than replicas.min');
+    }
+    if (max > RESOURCE_MAXIMUMS.replicas) {
+        errors.push(`replicas.max ${max} exceeds the node maximum of ${RESOURCE_MAXIMUMS.replicas}`);
+    }
+
+    const { cpuUtilization, memoryUtilization } = profile.autoscaling;
+    if (!Number.isInteger(cpuUtilization) || cpuUtilization < 1 || cpuUtilization > 100) {
+        errors.push('autoscaling.cpuUtilization must be an integer percentage between 1 and 100');
+    }
+    if (memoryUtilization !== undefined && memoryUtilization !== null &&
+        (!Number.isInteger(memoryUtilization) || memoryUtilization < 1 || memoryUtilization > 100)) {
+        errors.push('autoscaling.memoryUtilization must be an integer percentage between 1 and 100');
+    }
+
+    const maxVolume = parseMemory(RESOURCE_MAXIMUMS.volumeSize);
+    for (const key of ['mysqlSize', 'mongoSize'] as const) {
+        const bytes = parseMemory(profile.storage[key]);
+        if (isNaN(bytes) || bytes <= 0) {
+            errors.push(`storage.${key} must be a size such as "20Gi"`);
+        } else if (bytes > maxVolume) {
+            errors.push(`storage.${key} ${profile.storage[key]} exceeds the node maximum of ${RESOURCE_MAXIMUMS.volumeSize}`);
+        } else if (bytes < parseMemory(current.storage[key])) {
+            errors.push(`storage.${key} cannot be reduced below ${current.storage[key]}; volumes can only grow`);
+        }
+    }
+    return errors;
+}
+
+/**
+ * Helm values for a profile.
+ */
+export function resourceProfileValues(profile: ResourceProfile): Record<string, any> {
+    return {
+        appReplicas: profile.replicas.min,
+        appMinReplicas: profile.replicas.min,
+        appMaxReplicas: profile.replicas.max,
+        resources: {
+            backend: profile.backend,
+            frontend: profile.frontend
+        },
+        autoscaling: profile.autoscaling,
+        storage: profile.storage
+    };
+}
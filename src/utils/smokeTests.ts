@@ -0,0 +1,175 @@
+/**
+ * Post-deploy smoke tests: once a release has rolled out, its backend health endpoint,
+ * its frontend root and any URLs the project declares under `smokeTests` in its CARS
+ * config are requested through the public ingress until they answer or time runs out.
+ */
+import https from 'https';
+import axios from 'axios';
+
+export type DeclaredSmokeTest = string | { path?: string, url?: string, expectStatus?: number };
+
+export interface SmokeTestTarget {
+    name: string;
+    url: string;
+    // Exact status to expect; any 2xx/3xx passes when unset
+    expectStatus?: number;
+}
+
+export interface SmokeTestResult {
+    name: string;
+    url: string;
+    passed: boolean;
+    statusCode: number | null;
+    error: string | null;
+    attempts: number;
+    durationMs: number;
+}
+
+export interface SmokeTestReport {
+    status: 'passed' | 'failed' | 'skipped';
+    results: SmokeTestResult[];
+}
+
+export const MAX_DECLARED_SMOKE_TESTS = 20;
+
+// How long each target gets to start answering after the rollout; 0 turns smoke tests off
+const SMOKE_TEST_TIMEOUT_MS = parseInt(process.env.CARS_SMOKE_TEST_TIMEOUT_SECONDS || '180', 10) * 1000;
+const RETRY_INTERVAL_MS = 5000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// A new host's certificate may still be being issued when the rollout finishes; what is
+// being tested is the release behind the ingress, not the certificate.
+const insecureAgent = new https.Agent({ rejectUnauthorized: false });
+
+/**
+ * Hosts that belong to the project; declared URLs may only point at these.
+ */
+export function projectHosts(project: any): string[] {
+    const base = `${project.project_uuid}.${process.env.PROJECT_DEPLOYMENT_DNS_NAME}`;
+    return [
+        `frontend.${base}`,
+        `backend.${base}`,
+        project.frontend_custom_domain,
+        project.frontend_custom_domain ? `www.${project.frontend_custom_domain}` : null,
+        project.backend_custom_domain
+    ].filter(Boolean);
+}
+
+/**
+ * Checks the `smokeTests` list from a CARS config. Entries are paths (resolved against the
+ * backend, or the frontend for frontend-only deploys), absolute URLs on the project's own
+ * hosts, or objects of the form { path | url, expectStatus }.
+ */
+export function validateSmokeTests(declared: unknown, project: any): string[] {
+    if (declared === undefined) return [];
+    if (!Array.isArray(declared)) {
+        return ['smokeTests must be a list'];
+    }
+    if (declared.length > MAX_DECLARED_SMOKE_TESTS) {
+        return [`smokeTests may list at most ${MAX_DECLARED_SMOKE_TESTS} entries`];
+    }
+    const hosts = projectHosts(project);
+    const errors: string[] = [];
+    declared.forEach((entry: any, i: number) => {
+        const test = typeof entry === 'string' ? { [entry.startsWith('/') ? 'path' : 'url']: entry } : entry;
+        if (!test || typeof test !== 'object') {
+            errors.push(`smokeTests[${i}] must be a path, a URL or { path | url, expectStatus }`);
+            return;
+        }
+        if (test.path !== undefined) {
+            if (typeof test.path !== 'string' || !test.path.startsWith('/')) {
+                errors.push(`smokeTests[${i}]: path must start with /`);
+            }
+        } else if (typeof test.url === 'string') {
+            let parsed: URL;
+            try {
+                parsed = new URL(test.url);
+            } catch (e) {
+                errors.push(`smokeTests[${i}]: ${test.url} is not a valid URL`);
+                return;
+            }
+            if (!['http:', 'https:'].includes(parsed.protocol)) {
+                errors.push(`smokeTests[${i}]: only http and https URLs can be tested`);
+            } else if (!hosts.includes(parsed.hostname)) {
+                errors.push(`smokeTests[${i}]: ${parsed.hostname} is not one of this project's hosts`);
+            }
+        } else {
+            errors.push(`smokeTests[${i}] must have a path or a url`);
+        }
+        if (test.expectStatus !== undefined && !(Number.isInteger(test.expectStatus) && test.expectStatus >= 100 && test.expectStatus <= 599)) {
+            errors.push(`smokeTests[${i}]: expectStatus must be an HTTP status code`);
+        }
+    });
+    return errors;
+}
+
+/**
+ * What to probe for a release, from its Helm values and the project's declared tests.
+ */
+export function smokeTestTargets(valuesObj: Record<string, any>, declared: DeclaredSmokeTest[] = []): SmokeTestTarget[] {
+    const targets: SmokeTestTarget[] = [];
+    if (valuesObj.backendImage) {
+        targets.push({ name: 'backend health', url: `https://${valuesObj.ingressHostBackend}/health/ready` });
+    }
+    if (valuesObj.frontendImage) {
+        targets.push({ name: 'frontend', url: `https://${valuesObj.ingressHostFrontend}/` });
+    }
+    const defaultHost = valuesObj.backendImage ? valuesObj.ingressHostBackend : valuesObj.ingressHostFrontend;
+    for (const entry of declared) {
+        const test = typeof entry === 'string' ? (entry.startsWith('/') ? { path: entry } : { url: entry }) : entry;
+        const url = test.path !== undefined ? `https://${defaultHost}${test.path}` : test.url!;
+        targets.push({ name: url, url, expectStatus: test.expectStatus });
+    }
+    return targets;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+}
+
+async function probe(target: SmokeTestTarget, deadline: number, signal?: AbortSignal): Promise<SmokeTestResult> {
+    const startedAt = Date.now();
+    const result: SmokeTestResult = { name: target.name, url: target.url, passed: false, statusCode: null, error: null, attempts: 0, durationMs: 0 };
+    do {
+        result.attempts++;
+        try {
+            const response = await axios.get(target.url, {
+                timeout: REQUEST_TIMEOUT_MS,
+                maxRedirects: 0,
+                httpsAgent: insecureAgent,
+                validateStatus: () => true,
+                signal
+            });
+            result.statusCode = response.status;
+            result.passed = target.expectStatus !== undefined
+                ? response.status === target.expectStatus
+                : response.status >= 200 && response.status < 400;
+            result.error = result.passed ? null : `HTTP ${response.status}`;
+        } catch (error: any) {
+            result.statusCode = null;
+            result.error = error?.message || 'Request failed';
+        }
+        if (result.passed || signal?.aborted) break;
+        await wait(RETRY_INTERVAL_MS, signal);
+    } while (Date.now() < deadline && !signal?.aborted);
+    result.durationMs = Date.now() - startedAt;
+    return result;
+}
+
+/**
+ * Probes every target, retrying each until it passes or the time allowed runs out.
+ */
+export async function runSmokeTests(targets: SmokeTestTarget[], signal?: AbortSignal): Promise<SmokeTestReport> {
+    if (SMOKE_TEST_TIMEOUT_MS <= 0 || targets.length === 0) {
+        return { status: 'skipped', results: [] };
+    }
+    const deadline = Date.now() + SMOKE_TEST_TIMEOUT_MS;
+    const results = await Promise.all(targets.map(target => probe(target, deadline, signal)));
+    return { status: results.every(r => r.passed) ? 'passed' : 'failed', results };
+}
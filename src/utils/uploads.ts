@@ -0,0 +1,260 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { Utils, type WalletInterface } from '@bsv/sdk';
+import type { Knex } from 'knex';
+import logger from '../logger';
+import { enqueueDeploymentJob, findActiveJobForDeploy } from './deployJobs';
+import { artifactLimitsForProject, inspectArtifact, type ArtifactSummary } from './artifact';
+import { setDeployStatus } from './deployStatus';
+import { findDeploymentInProgress } from './deployLocks';
+
+// How long a signed upload URL can be used to start an upload.
+const UPLOAD_URL_TTL_SECONDS = parseInt(process.env.CARS_UPLOAD_URL_TTL_SECONDS || '3600', 10);
+
+function uploadUrlPayload(deploymentId: string, expires: number): number[] {
+    return Utils.toArray(`${deploymentId}:${expires}`, 'utf8');
+}
+
+/**
+ * Create a signed upload URL for a deploy. The expiry (unix seconds) is part of the signed payload.
+ */
+export async function createUploadUrl(wallet: WalletInterface, deploymentId: string): Promise<{ url: string, expiresAt: Date }> {
+    const expires = Math.floor(Date.now() / 1000) + UPLOAD_URL_TTL_SECONDS;
+    const { signature } = await wallet.createSignature({
+        data: uploadUrlPayload(deploymentId, expires),
+        protocolID: [2, 'url signing'],
+        keyID: deploymentId,
+        counterparty: 'self'
+    });
+    return {
+        url: `${process.env.CARS_NODE_SERVER_BASEURL || 'http://localhost:7777'}/api/v1/upload/${deploymentId}/${Utils.toHex(signature)}?expires=${expires}`,
+        expiresAt: new Date(expires * 1000)
+    };
+}
+
+/**
+ * Why an upload request was refused, as the HTTP status and JSON body to respond with.
+ */
+export interface UploadRejection {
+    status: number;
+    body: Record<string, any>;
+}
+
+export interface UploadAuthorization {
+    rejection?: UploadRejection;
+    deploy?: any;
+    project?: any;
+    // The URL has expired but is still good for continuing an open chunked upload
+    expired?: boolean;
+}
+
+/**
+ * Checks a signed upload URL and that the deploy can currently accept an artifact.
+ * Shared by the single-request and chunked upload routes.
+ * With `continuingChunkedUpload`, an expired URL is still accepted for a chunked upload that was started before it expired.
+ */
+export async function authorizeUpload(
+    db: Knex,
+    wallet: WalletInterface,
+    deploymentId: string,
+    signature: string,
+    expiresParam: unknown,
+    options: { continuingChunkedUpload?: boolean } = {}
+): Promise<UploadAuthorization> {
+    const expires = Number(expiresParam);
+    if (!Number.isInteger(expires) || expires <= 0) {
+        return { rejection: { status: 401, body: { error: 'Upload URL is missing its expiry' } } };
+    }
+
+    const deploy = await db('deploys').where({ deployment_uuid: deploymentId }).first();
+    if (!deploy) {
+        return { rejection: { status: 400, body: { error: 'Invalid deploymentId' } } };
+    }
+
+    const project = await db('projects').where({ id: deploy.project_id }).first();
+    if (!project) {
+        return { rejection: { status: 400, body: { error: 'Project not found' } } };
+    }
+
+    const { valid } = await wallet.verifySignature({
+        data: uploadUrlPayload(deploymentId, expires),
+        signature: Utils.toArray(signature, 'hex'),
+        protocolID: [2, 'url signing'],
+        keyID: deploymentId,
+        counterparty: 'self'
+    });
+    if (!valid) {
+        return { rejection: { status: 401, body: { error: 'Invalid signature' } } };
+    }
+
+    if (deploy.upload_consumed_at) {
+        return { rejection: { status: 410, body: { error: 'This upload URL has already been used. Create a new deployment to upload again.' } } };
+    }
+
+    const expiresAt = new Date(expires * 1000);
+    const expired = expiresAt.getTime() < Date.now();
+    if (expired) {
+        const session = options.continuingChunkedUpload
+            ? await db('artifact_uploads').where({ deploy_id: deploy.id, state: 'open' }).andWhere('created_at', '<=', expiresAt).first()
+            : undefined;
+        if (!session) {
+            return { rejection: { status: 401, body: { error: `Upload URL expired at ${expiresAt.toISOString()}` } } };
+        }
+    }
+
+    if (project.balance < 1) {
+        return { rejection: { status: 401, body: { error: `Project balance must be at least 1 satoshi to upload a deployment. Current balance: ${project.balance}` } } };
+    }
+
+    // Refuse to overwrite an artifact that a queued or running job is about to use
+    const activeJob = await findActiveJobForDeploy(db, deploy.id);
+    if (activeJob) {
+        return { rejection: { status: 409, body: { error: 'A deployment job is already in progress for this deploymentId', jobId: activeJob.id } } };
+    }
+
+    return { deploy, project, expired };
+}
+
+/**
+ * Mark a deploy's upload URL used. Only one request can win this, so a leaked or replayed URL can't trigger another build.
+ */
+export async function consumeUploadUrl(db: Knex, deploy: any): Promise<UploadRejection | undefined> {
+    const consumed = await db('deploys').where({ id: deploy.id }).whereNull('upload_consumed_at').update({ upload_consumed_at: new Date() });
+    if (!consumed) {
+        return { status: 410, body: { error: 'This upload URL has already been used. Create a new deployment to upload again.' } };
+    }
+    return undefined;
+}
+
+/**
+ * Where an accepted artifact is kept until its deployment job has extracted it.
+ */
+export function artifactPath(deploymentId: string): string {
+    return path.join('/tmp', `artifact_${deploymentId}.tgz`);
+}
+
+/**
+ * A fresh path to receive an upload at before it is accepted. Requests replaying the same upload URL
+ * each get their own, so the ones that lose the race to consume it never touch the accepted artifact.
+ */
+export function uploadTempPath(deploymentId: string): string {
+    return path.join('/tmp', `artifact_${deploymentId}.${crypto.randomBytes(8).toString('hex')}.tmp`);
+}
+
+export interface AcceptedArtifact {
+    rejection?: UploadRejection;
+    jobId?: number;
+    artifact?: ArtifactSummary;
+    // Deployment this one is queued behind, when another deploy of the project is in progress
+    queuedBehind?: string;
+}
+
+/**
+ * Validate an artifact that has been written to `uploadedPath` (from uploadTempPath), record it on the deploy and queue
+ * the deployment job. Only once this request has consumed the upload URL is the file moved to the deploy's artifactPath.
+ * A rejected artifact is deleted, and one that fails validation marks the deploy failed before any build starts.
+ */
+export async function acceptArtifact(db: Knex, deploy: any, project: any, uploadedPath: string): Promise<AcceptedArtifact> {
+    let artifact: ArtifactSummary;
+    try {
+        artifact = await inspectArtifact(uploadedPath, artifactLimitsForProject(project));
+    } catch (validationError: any) {
+        fs.removeSync(uploadedPath);
+        const reason = `Artifact rejected: ${validationError.message}`;
+        await db('logs').insert({
+            project_id: project.id,
+            deploy_id: deploy.id,
+            message: reason
+        });
+        await setDeployStatus(db, deploy.id, 'failed', { failure_reason: reason });
+        logger.warn({ deploymentId: deploy.deployment_uuid }, reason);
+        return { rejection: { status: 400, body: { error: reason } } };
+    }
+
+    // Another deployment of this project is in progress: reject, or let the worker run this one after it
+    const inProgress = await findDeploymentInProgress(db, project.id, deploy.id);
+    if (inProgress && project.concurrent_deploy_policy === 'reject') {
+        fs.removeSync(uploadedPath);
+        return {
+            rejection: {
+                status: 409,
+                body: { error: `Deployment ${inProgress.deploymentId} is already in progress for this project`, lockedBy: inProgress.deploymentId }
+            }
+        };
+    }
+
+    const rejection = await consumeUploadUrl(db, deploy);
+    if (rejection) {
+        fs.removeSync(uploadedPath);
+        return { rejection };
+    }
+    const filePath = artifactPath(deploy.deployment_uuid);
+    await fs.move(uploadedPath, filePath, { overwrite: true });
+
+    await db('deploys').where({ id: deploy.id }).update({
+        file_path: filePath,
+        artifact_sha256: artifact.sha256,
+        artifact_bytes: artifact.compressedBytes,
+        artifact_extracted_bytes: artifact.extractedBytes,
+        artifact_entries: artifact.entries
+    });
+    await db('logs').insert({
+        project_id: project.id,
+        deploy_id: deploy.id,
+        message: `File uploaded successfully, saved to ${filePath} (sha256 ${artifact.sha256}, ${artifact.entries} entries, ${artifact.extractedBytes} bytes extracted)`
+    });
+    logger.info({ deploymentId: deploy.deployment_uuid, sha256: artifact.sha256 }, `File uploaded successfully, saved to ${filePath}`);
+
+    // Queue the build/push/helm workflow. The job is persisted, so the
+    // deployment survives a node restart and is resumed (or failed cleanly)
+    // by the deployment worker rather than living in the upload request.
+    const jobId = await enqueueDeploymentJob(db, { ...deploy, file_path: filePath, artifact_sha256: artifact.sha256 });
+    if (inProgress) {
+        await db('logs').insert({
+            project_id: project.id,
+            deploy_id: deploy.id,
+            message: `Queued behind deployment ${inProgress.deploymentId}, which is still in progress`
+        });
+    }
+    return { jobId, artifact, queuedBehind: inProgress?.deploymentId };
+}
+
+/**
+ * Queue the deployment job for a deploy built from a Git source. The repository is cloned by the job itself,
+ * so the deploy's upload URL is consumed here and no artifact is ever accepted for it.
+ */
+export async function acceptGitSource(db: Knex, deploy: any, project: any): Promise<AcceptedArtifact> {
+    const inProgress = await findDeploymentInProgress(db, project.id, deploy.id);
+    if (inProgress && project.concurrent_deploy_policy === 'reject') {
+        await setDeployStatus(db, deploy.id, 'cancelled', { failure_reason: `Deployment ${inProgress.deploymentId} was already in progress` });
+        return {
+            rejection: {
+                status: 409,
+                body: { error: `Deployment ${inProgress.deploymentId} is already in progress for this project`, lockedBy: inProgress.deploymentId }
+            }
+        };
+    }
+
+    const rejection = await consumeUploadUrl(db, deploy);
+    if (rejection) {
+        return { rejection };
+    }
+
+    await db('logs').insert({
+        project_id: project.id,
+        deploy_id: deploy.id,
+        message: `Deploying from Git: ${deploy.git_url} at ${deploy.git_ref}`
+    });
+    logger.info({ deploymentId: deploy.deployment_uuid, gitUrl: deploy.git_url, gitRef: deploy.git_ref }, 'Git deployment queued');
+
+    const jobId = await enqueueDeploymentJob(db, deploy);
+    if (inProgress) {
+        await db('logs').insert({
+            project_id: project.id,
+            deploy_id: deploy.id,
+            message: `Queued behind deployment ${inProgress.deploymentId}, which is still in progress`
+        });
+    }
+    return { jobId, queuedBehind: inProgress?.deploymentId };
+}
@@ -1,6 +1,7 @@
 import { WalletInterface, PrivateKey, P2PKH, PublicKey, InternalizeActionArgs, CachedKeyDeriver } from '@bsv/sdk';
 import type { Knex } from 'knex';
 import logger from '../logger';
+import { projectPrivateKey } from './encryption';
 import crypto from 'crypto';
 import { Services, StorageClient, Wallet, WalletSigner, WalletStorageManager } from '@bsv/wallet-toolbox-client';
 
@@ -79,6 +80,29 @@ export async function fundKey(
     return true;
 }
 
+// Left on a key being swept to pay the sweep transaction's fee
+const SWEEP_FEE_SATOSHIS = parseInt(process.env.CARS_KEY_SWEEP_FEE_SATS || '200', 10);
+
+/**
+ * Moves the balance of one key to another, less a margin for the fee.
+ * Returns the amount moved (0 if the balance did not cover the fee).
+ */
+export async function sweepKey(
+    fromPrivateKey: string,
+    toPrivateKey: string,
+    network: 'mainnet' | 'testnet' = 'mainnet'
+): Promise<number> {
+    const fromWallet = await makeWallet(network === 'mainnet' ? 'main' : 'test', fromPrivateKey);
+    const { outputs } = await fromWallet.listOutputs({ basket: 'default', limit: 10000 });
+    const balance = outputs.reduce((a, e) => a + e.satoshis, 0);
+    const amount = balance - SWEEP_FEE_SATOSHIS;
+    if (amount <= 0) {
+        return 0;
+    }
+    await fundKey(fromWallet, toPrivateKey, amount, network);
+    return amount;
+}
+
 export async function checkAndFundProjectKeys(db: Knex, mainnetWalelt: WalletInterface, testnetWallet: WalletInterface) {
     const projects = await db('projects')
         .select('projects.*')
@@ -86,8 +110,8 @@ export async function checkAndFundProjectKeys(db: Knex, mainnetWalelt: WalletInt
 
     for (const project of projects) {
         try {
-            const key = project.private_key;
-            const balance = await findBalanceForKey(key.private_key, project.network);
+            const key = projectPrivateKey(project);
+            const balance = await findBalanceForKey(key, project.network);
 
             if (balance < 100) {
                 const neededAmount = 500 - balance;
@@ -99,21 +123,16 @@ export async function checkAndFundProjectKeys(db: Knex, mainnetWalelt: WalletInt
 
                 const funded = await fundKey(
                     sourceWallet,
-                    project.private_key,
+                    key,
                     fundingAmount,
                     project.network
                 );
 
                 if (funded) {
-                    if (key.network === 'mainnet') {
-                        await db('projects')
-                            .where({ id: project.id })
-                            .decrement('balance', fundingAmount);
-                    } else {
-                        await db('projects')
-                            .where({ id: project.id })
-                            .decrement('balance', Math.round(fundingAmount / 10));
-                    }
+                    // Funding has always been charged at a tenth of the amount on both networks
+                    await db('projects')
+                        .where({ id: project.id })
+                        .decrement('balance', Math.round(fundingAmount / 10));
 
                     logger.info({
                         projectId: project.project_uuid,